@@ -0,0 +1,172 @@
+// --- Audit log ---
+//
+// Every write sent to QuickBooks (POST through qbRequest) is appended to a JSONL file: when, which
+// MCP session and tool, which company and record, the record before and after, and QBO's intuit_tid
+// for tracing the request with Intuit. Lines are only ever appended; get_audit_log reads them back.
+
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+
+export type AuditRecord = {
+  id: string;
+  timestamp: string;
+  // MCP session id ("stdio" for the local transport) and the authenticated client, when known
+  sessionId?: string;
+  client?: string;
+  tool?: string;
+  realmId: string;
+  method: string;
+  endpoint: string;
+  // create, update, delete, void, send, ... as sent to QBO
+  operation: string;
+  entity: string;
+  entityId?: string;
+  // bId of the item within a batch request
+  batchItem?: string;
+  before?: unknown;
+  after?: unknown;
+  intuitTid?: string;
+  status: "ok" | "error";
+  error?: string;
+};
+
+export type AuditFilter = {
+  realmId?: string;
+  entity?: string;
+  entityId?: string;
+  tool?: string;
+  sessionId?: string;
+  status?: "ok" | "error";
+  // ISO date-times, inclusive
+  since?: string;
+  until?: string;
+  limit?: number;
+};
+
+type WriteInfo = {
+  endpoint: string;
+  body?: any;
+  // Batch: the record each update/delete item changes, as it was before the write, by bId
+  itemsBefore?: Map<string, unknown>;
+};
+
+/** Operation a write performs: an explicit ?operation=, a path action (invoice/1/send), or create/update. */
+export function writeOperation({ endpoint, body }: WriteInfo): { entity: string; operation: string; id?: string } {
+  const [pathPart, query = ""] = endpoint.split("?");
+  const [entity, pathId, action] = pathPart.split("/");
+  const operation = action ?? new URLSearchParams(query).get("operation") ?? (body?.Id ? "update" : "create");
+  return { entity, operation, id: pathId ?? (body?.Id !== undefined ? String(body.Id) : undefined) };
+}
+
+// The entity object in a QBO write response, e.g. { Customer: {...}, time } -> ["Customer", {...}]
+function responseEntity(data: any): [string, any] | undefined {
+  return Object.entries(data ?? {}).find(
+    ([key, value]) => /^[A-Z]/.test(key) && key !== "Fault" && value && typeof value === "object"
+  ) as [string, any] | undefined;
+}
+
+type AuditBase = Omit<AuditRecord, "id" | "timestamp" | "operation" | "entity" | "entityId" | "status">;
+
+/**
+ * Audit records for one write: one per batch item for /batch, otherwise one for the request.
+ * `data` is the parsed response, or undefined when the write failed with `error`.
+ */
+export function auditRecords(base: AuditBase, write: WriteInfo, data: any, error?: string): AuditRecord[] {
+  const stamp = () => ({ id: crypto.randomUUID(), timestamp: new Date().toISOString() });
+
+  if (write.endpoint.split("?")[0] === "batch") {
+    const responses = new Map<string, any>();
+    for (const item of data?.BatchItemResponse ?? []) responses.set(String(item.bId), item);
+
+    // Queries in a batch change nothing
+    const writes = (write.body?.BatchItemRequest ?? []).filter((req: any) => req.operation);
+    return writes.map((req: any): AuditRecord => {
+      const bId = String(req.bId);
+      const item = responses.get(bId);
+      const [entity, sent] = responseEntity(req) ?? ["unknown", undefined];
+      const [, after] = responseEntity(item) ?? [];
+      const before = write.itemsBefore?.get(bId);
+      const fault = item?.Fault?.Error?.[0];
+      const failed = error ?? (item ? (fault ? fault.Detail ?? fault.Message ?? "Fault" : undefined) : "No response");
+      return {
+        ...stamp(),
+        ...base,
+        operation: req.operation,
+        entity,
+        entityId: after?.Id ?? sent?.Id,
+        batchItem: bId,
+        ...(before ? { before } : {}),
+        after,
+        status: failed ? "error" : "ok",
+        ...(failed ? { error: failed } : {}),
+      };
+    });
+  }
+
+  const { entity, operation, id } = writeOperation(write);
+  const [name, after] = responseEntity(data) ?? [entity];
+  return [
+    {
+      ...stamp(),
+      ...base,
+      operation,
+      entity: name,
+      entityId: after?.Id ?? id,
+      ...(after ? { after } : {}),
+      status: error ? "error" : "ok",
+      ...(error ? { error } : {}),
+    },
+  ];
+}
+
+/** Append-only JSONL audit file. */
+export class AuditLog {
+  constructor(readonly filePath: string) {}
+
+  append(records: AuditRecord[]) {
+    if (!records.length) return;
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+    fs.appendFileSync(this.filePath, records.map((r) => JSON.stringify(r) + "\n").join(""), { mode: 0o600 });
+  }
+
+  /** Matching records, newest first. */
+  query(filter: AuditFilter = {}): AuditRecord[] {
+    let text: string;
+    try {
+      text = fs.readFileSync(this.filePath, "utf8");
+    } catch {
+      return [];
+    }
+    const since = filter.since ? Date.parse(filter.since) : undefined;
+    const until = filter.until ? Date.parse(filter.until) : undefined;
+    const entity = filter.entity?.toLowerCase();
+
+    const matches: AuditRecord[] = [];
+    const lines = text.split("\n");
+    for (let i = lines.length - 1; i >= 0 && matches.length < (filter.limit ?? 50); i--) {
+      if (!lines[i]) continue;
+      let r: AuditRecord;
+      try {
+        r = JSON.parse(lines[i]);
+      } catch {
+        continue; // a torn final line from a crash
+      }
+      const at = Date.parse(r.timestamp);
+      if (
+        (!filter.realmId || r.realmId === filter.realmId) &&
+        (!entity || r.entity.toLowerCase() === entity) &&
+        (!filter.entityId || r.entityId === filter.entityId) &&
+        (!filter.tool || r.tool === filter.tool) &&
+        (!filter.sessionId || r.sessionId === filter.sessionId) &&
+        (!filter.status || r.status === filter.status) &&
+        (since === undefined || at >= since) &&
+        (until === undefined || at <= until)
+      ) {
+        matches.push(r);
+      }
+    }
+    return matches;
+  }
+}
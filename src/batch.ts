@@ -0,0 +1,151 @@
+// --- Batch operations ---
+//
+// QBO's /batch endpoint runs up to 30 create/update/delete/query operations in one HTTP request and
+// answers each one under its bId. These helpers build the request body, split larger inputs into
+// chunks and turn the response into one result (entity, rows or fault) per operation.
+
+import { ConfirmationRequiredError, InvalidInputError, QuickBooksError, faultToError } from "./errors.js";
+import { QueryEntity, QuerySpec, buildQuery } from "./queryBuilder.js";
+
+// QBO limit per /batch request
+export const MAX_BATCH_SIZE = 30;
+
+// Upper bound for chunked bulk calls from a single tool invocation
+export const MAX_BULK_OPERATIONS = 1000;
+
+export type BatchOperation =
+  | {
+      bId?: string;
+      operation: "create" | "update" | "delete";
+      entity: QueryEntity;
+      // QBO-shaped entity JSON; update and delete need Id and SyncToken
+      data: Record<string, any>;
+    }
+  | { bId?: string; operation: "query"; query: QuerySpec };
+
+export type BatchItemResult = {
+  bId: string;
+  operation: BatchOperation["operation"];
+  entity: string;
+  ok: boolean;
+  // Entity for writes, rows for queries
+  result?: any;
+  error?: { category: string; code?: string; element?: string; message: string };
+};
+
+type Keyed = BatchOperation & { bId: string };
+
+function entityOf(op: BatchOperation): string {
+  return op.operation === "query" ? op.query.entity : op.entity;
+}
+
+/** Give every operation a bId (its 1-based position unless set) and reject duplicates. */
+export function assignBatchIds(ops: BatchOperation[]): Keyed[] {
+  const seen = new Set<string>();
+  return ops.map((op, i) => {
+    const bId = op.bId ?? String(i + 1);
+    if (seen.has(bId)) throw new InvalidInputError(`Duplicate bId "${bId}" in batch`, "bId");
+    seen.add(bId);
+    return { ...op, bId };
+  });
+}
+
+function batchItemRequest(op: Keyed): Record<string, any> {
+  if (op.operation === "query") {
+    return { bId: op.bId, Query: buildQuery(op.query) };
+  }
+
+  const data = { ...op.data };
+  if (op.operation !== "create" && (!data.Id || data.SyncToken === undefined)) {
+    throw new InvalidInputError(`Batch ${op.operation} "${op.bId}" needs data.Id and data.SyncToken`, "data");
+  }
+  // Sparse by default, like the single-record update tools
+  if (op.operation === "update" && data.sparse === undefined) data.sparse = true;
+
+  return { bId: op.bId, operation: op.operation, [op.entity]: data };
+}
+
+/** Build one /batch request body (at most MAX_BATCH_SIZE operations). */
+export function buildBatchRequest(ops: Keyed[]): { BatchItemRequest: Record<string, any>[] } {
+  if (ops.length > MAX_BATCH_SIZE) {
+    throw new InvalidInputError(`A batch request holds at most ${MAX_BATCH_SIZE} operations`);
+  }
+  return { BatchItemRequest: ops.map(batchItemRequest) };
+}
+
+function errorSummary(err: unknown): NonNullable<BatchItemResult["error"]> {
+  if (err instanceof QuickBooksError) {
+    return JSON.parse(
+      JSON.stringify({ category: err.category, code: err.code, element: err.element, message: err.message })
+    );
+  }
+  const category = err instanceof ConfirmationRequiredError ? "confirmation_required" : "unknown";
+  return { category, message: err instanceof Error ? err.message : String(err) };
+}
+
+function failedResult(op: Keyed, error: NonNullable<BatchItemResult["error"]>): BatchItemResult {
+  return { bId: op.bId, operation: op.operation, entity: entityOf(op), ok: false, error };
+}
+
+/** Match each BatchItemResponse to its operation by bId. */
+export function parseBatchResponse(ops: Keyed[], response: any): BatchItemResult[] {
+  const items = new Map<string, any>();
+  for (const item of response?.BatchItemResponse ?? []) items.set(String(item.bId), item);
+
+  return ops.map((op) => {
+    const entity = entityOf(op);
+    const base = { bId: op.bId, operation: op.operation, entity };
+    const item = items.get(op.bId);
+
+    if (!item) {
+      const message = "QuickBooks returned no response for this operation";
+      return { ...base, ok: false, error: { category: "unknown", message } };
+    }
+    if (item.Fault) {
+      return { ...base, ok: false, error: errorSummary(faultToError(400, item.Fault)) };
+    }
+    if (op.operation === "query") {
+      return { ...base, ok: true, result: item.QueryResponse?.[entity] ?? [] };
+    }
+    return { ...base, ok: true, result: item[entity] ?? item };
+  });
+}
+
+/**
+ * Run any number of operations through /batch, MAX_BATCH_SIZE per request and one request at a
+ * time. `send` posts a body to the batch endpoint. bIds are unique across all chunks.
+ * Earlier chunks are already committed when a later one fails, so a failed request does not throw:
+ * its operations, and those of the chunks not sent after it, come back as failed results.
+ */
+export async function runBatch(
+  ops: BatchOperation[],
+  send: (body: Record<string, any>) => Promise<any>
+): Promise<BatchItemResult[]> {
+  if (ops.length > MAX_BULK_OPERATIONS) {
+    throw new InvalidInputError(`At most ${MAX_BULK_OPERATIONS} operations per call`);
+  }
+  const keyed = assignBatchIds(ops);
+  // Build (and so validate) every chunk before sending the first
+  const chunks: Array<{ ops: Keyed[]; body: Record<string, any> }> = [];
+  for (let i = 0; i < keyed.length; i += MAX_BATCH_SIZE) {
+    const chunk = keyed.slice(i, i + MAX_BATCH_SIZE);
+    chunks.push({ ops: chunk, body: buildBatchRequest(chunk) });
+  }
+
+  const results: BatchItemResult[] = [];
+  let failure: { error: NonNullable<BatchItemResult["error"]>; bId: string } | undefined;
+  for (const chunk of chunks) {
+    if (failure) {
+      const message = `Not sent: the batch request starting at "${failure.bId}" failed (${failure.error.message})`;
+      results.push(...chunk.ops.map((op) => failedResult(op, { category: failure!.error.category, message })));
+      continue;
+    }
+    try {
+      results.push(...parseBatchResponse(chunk.ops, await send(chunk.body)));
+    } catch (err) {
+      failure = { error: errorSummary(err), bId: chunk.ops[0].bId };
+      results.push(...chunk.ops.map((op) => failedResult(op, failure!.error)));
+    }
+  }
+  return results;
+}
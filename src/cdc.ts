@@ -0,0 +1,242 @@
+// --- Change Data Capture cache ---
+//
+// Keeps a local copy of selected entities per realm, seeded with a full query walk and kept current
+// by polling /cdc?entities=...&changedSince=<high-water mark>. The cache (records plus the mark) is
+// a JSON file per realm, so restarts resume incrementally. Reads can be served from memory with
+// substring matching that the QBO query language cannot do.
+
+import fs from "fs";
+import path from "path";
+import { writeFileAtomic } from "./tokenStore.js";
+
+// QBO only answers CDC for changes in the last 30 days; reseed when the mark is older than this
+const CDC_MAX_LOOKBACK_MS = 29 * 24 * 60 * 60 * 1000;
+
+// CDC returns at most 1000 objects per entity; an entity that hits the cap is reloaded in full
+const CDC_ENTITY_LIMIT = 1000;
+
+// Re-read a little before the mark so clock skew between us and QBO cannot drop a change
+const OVERLAP_MS = 60 * 1000;
+
+export type CdcChange = {
+  entity: string;
+  id: string;
+  deleted: boolean;
+  lastUpdatedTime?: string;
+  // Current record; absent for deletions
+  record?: any;
+};
+
+/** Flatten a CDCResponse into one change per record, with the number of objects per entity. */
+export function parseCdcResponse(data: any): { changes: CdcChange[]; counts: Record<string, number> } {
+  const changes: CdcChange[] = [];
+  const counts: Record<string, number> = {};
+
+  for (const cdc of data?.CDCResponse ?? []) {
+    for (const qr of cdc?.QueryResponse ?? []) {
+      for (const [entity, rows] of Object.entries(qr ?? {})) {
+        if (!Array.isArray(rows)) continue; // startPosition, maxResults, totalCount
+        counts[entity] = (counts[entity] ?? 0) + rows.length;
+        for (const row of rows) {
+          const deleted = row?.status === "Deleted";
+          changes.push({
+            entity,
+            id: String(row?.Id),
+            deleted,
+            lastUpdatedTime: row?.MetaData?.LastUpdatedTime,
+            ...(deleted ? {} : { record: row }),
+          });
+        }
+      }
+    }
+  }
+  return { changes, counts };
+}
+
+export type CdcSource = {
+  // Raw /cdc response for the entities since an ISO date-time
+  fetchChanges(entities: string[], changedSince: string): Promise<any>;
+  // Every row of one entity (seeding, or when CDC cannot cover the gap)
+  fetchAll(entity: string): Promise<any[]>;
+};
+
+export type SyncResult = {
+  mode: "full" | "incremental";
+  changesApplied: number;
+  reloaded: string[];
+  highWaterMark: string;
+};
+
+export type Freshness = {
+  source: "cache";
+  syncedAt?: string;
+  ageSeconds?: number;
+  highWaterMark?: string;
+};
+
+type CacheFile = {
+  version: 1;
+  realmId: string;
+  highWaterMark?: string;
+  syncedAt?: string;
+  entities: Record<string, Record<string, any>>;
+};
+
+// Our query field names use Metadata.*; QBO records carry MetaData.*
+export function recordValue(record: any, field: string): unknown {
+  const path = field.startsWith("Metadata.") ? `MetaData.${field.slice("Metadata.".length)}` : field;
+  return path.split(".").reduce((o, k) => (o == null ? undefined : o[k]), record);
+}
+
+export type CacheFilter =
+  // Case-insensitive substring match on a text field
+  | { field: string; contains: string }
+  | { field: string; equals: string | number | boolean };
+
+/** Filter and sort cached records in memory. */
+export function queryRecords(
+  records: any[],
+  filters: CacheFilter[],
+  orderBy?: { field: string; dir?: "ASC" | "DESC" }
+): any[] {
+  const rows = records.filter((r) =>
+    filters.every((f) => {
+      const value = recordValue(r, f.field);
+      if ("contains" in f) return String(value ?? "").toLowerCase().includes(f.contains.toLowerCase());
+      return value === f.equals;
+    })
+  );
+  if (orderBy) {
+    const sign = orderBy.dir === "DESC" ? -1 : 1;
+    const numeric = orderBy.field === "Id";
+    rows.sort((a, b) => {
+      const x = recordValue(a, orderBy.field);
+      const y = recordValue(b, orderBy.field);
+      if (numeric) return sign * (Number(x) - Number(y));
+      return sign * String(x ?? "").localeCompare(String(y ?? ""));
+    });
+  }
+  return rows;
+}
+
+/** Cached entities for one realm, persisted at filePath. */
+export class EntityCache {
+  private data?: CacheFile;
+  private syncing?: Promise<SyncResult>;
+  // Set when we learn of a change (e.g. a webhook) before the next sync
+  private invalidated = false;
+
+  constructor(
+    private readonly filePath: string,
+    readonly realmId: string,
+    readonly entities: string[]
+  ) {}
+
+  private load(): CacheFile {
+    if (!this.data) {
+      try {
+        const parsed = JSON.parse(fs.readFileSync(this.filePath, "utf8"));
+        this.data = parsed?.version === 1 && parsed.realmId === this.realmId ? parsed : undefined;
+      } catch {
+        // Missing or unreadable cache: start over with a full sync
+      }
+      this.data ??= { version: 1, realmId: this.realmId, entities: {} };
+    }
+    return this.data;
+  }
+
+  private save() {
+    writeFileAtomic(this.filePath, JSON.stringify(this.load()));
+  }
+
+  freshness(): Freshness {
+    const { syncedAt, highWaterMark } = this.load();
+    return {
+      source: "cache",
+      syncedAt,
+      ageSeconds: syncedAt ? Math.round((Date.now() - Date.parse(syncedAt)) / 1000) : undefined,
+      highWaterMark,
+    };
+  }
+
+  /** True when never synced, invalidated, or the last sync is older than maxAgeSeconds. */
+  isStale(maxAgeSeconds: number): boolean {
+    const age = this.freshness().ageSeconds;
+    return this.invalidated || age === undefined || age > maxAgeSeconds;
+  }
+
+  /** Make the next read sync first, whatever the cache age. */
+  invalidate() {
+    this.invalidated = true;
+  }
+
+  records(entity: string): any[] {
+    return Object.values(this.load().entities[entity] ?? {});
+  }
+
+  /** Apply CDC changes to entities we cache; others are ignored. Returns how many were applied. */
+  applyChanges(changes: CdcChange[], persist = true): number {
+    const data = this.load();
+    let applied = 0;
+    for (const change of changes) {
+      const table = data.entities[change.entity];
+      if (!table) continue;
+      if (change.deleted) delete table[change.id];
+      else table[change.id] = change.record;
+      applied++;
+    }
+    if (applied && persist) this.save();
+    return applied;
+  }
+
+  /** Drop all cached records so the next sync reloads in full. */
+  reset() {
+    this.data = { version: 1, realmId: this.realmId, entities: {} };
+  }
+
+  /** Bring the cache up to date; concurrent callers share one sync. */
+  sync(source: CdcSource): Promise<SyncResult> {
+    this.syncing ??= this.runSync(source).finally(() => {
+      this.syncing = undefined;
+    });
+    return this.syncing;
+  }
+
+  private async runSync(source: CdcSource): Promise<SyncResult> {
+    const data = this.load();
+    const started = Date.now();
+    this.invalidated = false;
+    const mark = data.highWaterMark ? Date.parse(data.highWaterMark) : undefined;
+    const full = mark === undefined || started - mark > CDC_MAX_LOOKBACK_MS;
+
+    // Entities added to the configuration since the last sync need seeding too
+    const reload = full ? [...this.entities] : this.entities.filter((e) => !data.entities[e]);
+    const incremental = this.entities.filter((e) => !reload.includes(e));
+
+    let changesApplied = 0;
+    if (incremental.length) {
+      const since = new Date(mark! - OVERLAP_MS).toISOString();
+      const { changes, counts } = parseCdcResponse(await source.fetchChanges(incremental, since));
+      changesApplied = this.applyChanges(changes, false);
+      for (const [entity, count] of Object.entries(counts)) {
+        if (count >= CDC_ENTITY_LIMIT && incremental.includes(entity)) reload.push(entity);
+      }
+    }
+
+    for (const entity of reload) {
+      const rows = await source.fetchAll(entity);
+      data.entities[entity] = Object.fromEntries(rows.map((r) => [String(r.Id), r]));
+    }
+
+    data.highWaterMark = new Date(started).toISOString();
+    data.syncedAt = new Date().toISOString();
+    this.save();
+
+    return { mode: full ? "full" : "incremental", changesApplied, reloaded: reload, highWaterMark: data.highWaterMark };
+  }
+}
+
+/** Cache file location for a realm. */
+export function cacheFilePath(dir: string, realmId: string): string {
+  return path.join(dir, `${realmId.replace(/[^A-Za-z0-9_-]/g, "_")}.json`);
+}
@@ -0,0 +1,191 @@
+// --- Dry runs and write confirmation ---
+//
+// Mutating tools run their handler under a WriteGate. In a dry run the gate records each write
+// (method, endpoint, exact QBO body) and stops the handler before anything is sent, or, for tools
+// whose later writes don't depend on earlier responses, answers with the body and lets the handler
+// carry on so every write it would make is recorded. The preview
+// comes back with a short-lived token signed over those writes. A confirmed call runs the handler
+// again, and the gate lets a write through only if it matches the preview, so what gets written is
+// exactly what was approved. A conflict-checked update that is re-sent with a newer SyncToken after
+// a stale_object error counts as the write it retries.
+
+import crypto from "crypto";
+import { changedPaths, getPath, sameValue } from "./conflicts.js";
+import { ConfirmationRequiredError } from "./errors.js";
+
+// Deletions, voids, deactivations, money movement, email and bulk writes
+export const RISKY_TOOLS = new Set([
+  "void_invoice",
+  "send_invoice",
+  "record_payment",
+  "record_bill_payment",
+  "set_customer_active",
+  "set_vendor_active",
+  "set_item_active",
+  "batch",
+  "bulk_create_customers",
+  "merge_customers",
+  "import_customers",
+]);
+
+export type ConfirmPolicy = "none" | "risky" | "all" | Set<string>;
+
+/** QB_CONFIRM_WRITES: none (default), risky, all, or a comma-separated list of tool names. */
+export function parseConfirmPolicy(value: string | undefined): ConfirmPolicy {
+  const v = (value ?? "").trim();
+  if (!v || v === "none") return "none";
+  if (v === "risky" || v === "all") return v;
+  return new Set(v.split(",").map((t) => t.trim()).filter(Boolean));
+}
+
+export function requiresConfirmation(policy: ConfirmPolicy, tool: string): boolean {
+  if (policy === "none") return false;
+  if (policy === "all") return true;
+  if (policy === "risky") return RISKY_TOOLS.has(tool);
+  return policy.has(tool);
+}
+
+export type CapturedWrite = {
+  method: string;
+  endpoint: string;
+  body?: unknown;
+};
+
+export type FieldChange = { field: string; before: unknown; after: unknown };
+
+// Thrown by the gate to stop a dry-run handler at its first write
+export class DryRunStop extends Error {
+  constructor() {
+    super("Dry run: write not sent");
+    this.name = "DryRunStop";
+  }
+}
+
+function writeHash(write: CapturedWrite): string {
+  return crypto
+    .createHash("sha256")
+    .update(`${write.method} ${write.endpoint}\n${JSON.stringify(write.body ?? null)}`)
+    .digest("base64url")
+    .slice(0, 22);
+}
+
+// The same write against a newer version of the record, as a conflict-checked update re-sends it
+// after a stale_object error
+function sameWriteIgnoringSyncToken(a: CapturedWrite, b: CapturedWrite): boolean {
+  const strip = ({ body, ...w }: CapturedWrite): CapturedWrite => {
+    if (!body || typeof body !== "object") return { ...w, body };
+    const { SyncToken: _token, ...rest } = body as Record<string, unknown>;
+    return { ...w, body: rest };
+  };
+  return writeHash(strip(a)) === writeHash(strip(b));
+}
+
+/** Sits in front of every write made while a mutating tool runs in dryRun or confirm mode. */
+export class WriteGate {
+  readonly writes: CapturedWrite[] = [];
+  // Approved writes let through so far (confirm mode)
+  private matched = 0;
+  // What the handler decided to do, shown alongside the previewed writes (e.g. an import's row plan)
+  plan?: unknown;
+
+  constructor(
+    readonly mode: "dryRun" | "confirm",
+    // Hashes of the previewed writes, in order (confirm mode)
+    private readonly approved: string[] = [],
+    // Dry run: answer each write with its own body instead of stopping at the first
+    private readonly continueDryRun = false
+  ) {}
+
+  /** Record a write without stopping; callers that collect several writes throw DryRunStop themselves. */
+  record(write: CapturedWrite) {
+    this.writes.push(write);
+  }
+
+  /**
+   * Called before a write is sent: a dry run records it and stops (or returns a stand-in response),
+   * a confirmed run checks it and returns undefined so the write goes ahead.
+   */
+  check(write: CapturedWrite): { simulated: unknown } | undefined {
+    if (this.mode === "dryRun") {
+      this.record(write);
+      if (this.continueDryRun) return { simulated: write.body ?? {} };
+      throw new DryRunStop();
+    }
+    const previous = this.writes[this.writes.length - 1];
+    this.writes.push(write);
+    if (this.approved[this.matched] === writeHash(write)) {
+      this.matched++;
+      return undefined;
+    }
+    // A retry of the approved write that only picked up the record's new SyncToken
+    if (!previous || !sameWriteIgnoringSyncToken(previous, write)) {
+      throw new ConfirmationRequiredError(
+        "This write differs from the approved preview (the records or the input changed since). " +
+          "Preview it again with dryRun and confirm the new preview."
+      );
+    }
+    return undefined;
+  }
+}
+
+type TokenClaims = { tool: string; realmId: string; writes: string[]; exp: number };
+
+/**
+ * Signed, single-use confirmation tokens. The token carries the tool, company and write hashes,
+ * so any instance sharing the secret can check it; used tokens are remembered in memory only.
+ */
+export class ConfirmationTokens {
+  private readonly used = new Map<string, number>();
+
+  constructor(
+    private readonly secret: string,
+    readonly ttlSeconds: number
+  ) {}
+
+  private sign(payload: string): string {
+    return crypto.createHmac("sha256", this.secret).update(payload).digest("base64url");
+  }
+
+  issue(tool: string, realmId: string, writes: CapturedWrite[]): { token: string; expiresAt: string } {
+    const exp = Date.now() + this.ttlSeconds * 1000;
+    const claims: TokenClaims = { tool, realmId, writes: writes.map(writeHash), exp };
+    const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+    return { token: `${payload}.${this.sign(payload)}`, expiresAt: new Date(exp).toISOString() };
+  }
+
+  /** Approved write hashes, or undefined when the token is forged, expired, used or for another call. */
+  redeem(token: string, tool: string, realmId: string): string[] | undefined {
+    const [payload, signature = ""] = token.split(".");
+    const expected = Buffer.from(this.sign(payload ?? ""));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return undefined;
+
+    const now = Date.now();
+    for (const [sig, exp] of this.used) if (exp < now) this.used.delete(sig);
+
+    const claims: TokenClaims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    if (claims.tool !== tool || claims.realmId !== realmId || claims.exp < now || this.used.has(signature)) {
+      return undefined;
+    }
+    this.used.set(signature, claims.exp);
+    return claims.writes;
+  }
+}
+
+/**
+ * Field-level changes a write makes to the current entity. Sparse updates only touch the fields
+ * they send; full updates also clear every field they leave out. Creates diff against nothing.
+ */
+export function fieldDiff(current: any, body: Record<string, any>): FieldChange[] {
+  const sparse = body.sparse === true;
+  const fields = new Set(changedPaths(body));
+  if (current && !sparse) changedPaths(current).forEach((f) => fields.add(f));
+
+  const changes: FieldChange[] = [];
+  for (const field of fields) {
+    const before = current ? getPath(current, field) : undefined;
+    const after = getPath(body, field);
+    if (!sameValue(before, after)) changes.push({ field, before: before ?? null, after: after ?? null });
+  }
+  return changes;
+}
@@ -0,0 +1,158 @@
+// --- Conflict-aware updates ---
+//
+// QBO rejects a write carrying a stale SyncToken (error 5010) but otherwise lets the last writer win.
+// Updates here compare the fields being changed against a baseline: the caller's last-seen snapshot,
+// or the copy read just before writing. A concurrent edit to other fields is merged by writing again
+// with the fresh SyncToken; an edit to the same fields is returned as a field-level conflict.
+
+import { QuickBooksError, UpdateConflictError, type FieldConflict } from "./errors.js";
+
+// Bookkeeping fields that change on every write and never count as edits
+const IGNORED_FIELDS = new Set(["Id", "SyncToken", "sparse", "MetaData", "domain", "time"]);
+
+// Attempts when QBO keeps reporting a stale SyncToken between our read and write
+const MAX_ATTEMPTS = 3;
+
+/** Dotted paths of the leaf fields a QBO patch sets (arrays such as Line count as one field). */
+export function changedPaths(patch: Record<string, any>, prefix = ""): string[] {
+  const paths: string[] = [];
+  for (const [key, value] of Object.entries(patch ?? {})) {
+    if ((!prefix && IGNORED_FIELDS.has(key)) || value === undefined) continue;
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (value && typeof value === "object" && !Array.isArray(value)) paths.push(...changedPaths(value, path));
+    else paths.push(path);
+  }
+  return paths;
+}
+
+export function getPath(obj: any, path: string): unknown {
+  return path.split(".").reduce((o, k) => (o == null ? undefined : o[k]), obj);
+}
+
+// Key-order independent JSON; QBO omits empty fields, so undefined and null compare equal
+function canonical(value: unknown): string {
+  if (value === undefined || value === null) return "null";
+  if (Array.isArray(value)) return `[${value.map(canonical).join(",")}]`;
+  if (typeof value === "object") {
+    const entries = Object.keys(value as object)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${canonical((value as any)[k])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export const sameValue = (a: unknown, b: unknown) => canonical(a) === canonical(b);
+
+/** Fields that differ between two versions of an entity. */
+export function editedFields(base: any, current: any): string[] {
+  const paths = new Set([...changedPaths(base), ...changedPaths(current)]);
+  return [...paths].filter((p) => !sameValue(getPath(base, p), getPath(current, p)));
+}
+
+/**
+ * Fields in `paths` edited between base and current whose current value differs from what we are
+ * about to write. With no base every changed field that disagrees with current is a conflict.
+ * paths "all" is used for full (non-sparse) updates, which overwrite every field.
+ */
+export function findConflicts(
+  base: any | undefined,
+  current: any,
+  proposed: Record<string, any>,
+  paths: string[] | "all"
+): FieldConflict[] {
+  const fields =
+    paths === "all"
+      ? Array.from(new Set([...(base ? changedPaths(base) : []), ...changedPaths(current), ...changedPaths(proposed)]))
+      : paths;
+
+  const conflicts: FieldConflict[] = [];
+  for (const field of fields) {
+    const now = getPath(current, field);
+    if (base && sameValue(getPath(base, field), now)) continue;
+    const next = getPath(proposed, field);
+    // Both sides made the same edit
+    if (sameValue(now, next)) continue;
+    conflicts.push({
+      field,
+      ...(base ? { base: getPath(base, field) ?? null } : {}),
+      current: now ?? null,
+      proposed: next ?? null,
+    });
+  }
+  return conflicts;
+}
+
+export type ConflictAwareUpdate = {
+  // Entity name for messages, e.g. "customer"
+  entity: string;
+  fetchLatest: () => Promise<any>;
+  // QBO-shaped fields to write (without Id/SyncToken)
+  patch: Record<string, any>;
+  sparse: boolean;
+  // POST the full body and return the updated entity; current is the record the body was built on
+  write: (body: Record<string, any>, current: any) => Promise<any>;
+  // SyncToken the caller last saw; defaults to snapshot.SyncToken
+  expectedSyncToken?: string;
+  // The entity as the caller last read it (QBO JSON), used to tell which fields changed since
+  snapshot?: Record<string, any>;
+};
+
+export type UpdateOutcome = {
+  updated: any;
+  // Fields someone else changed concurrently that were kept while applying this update
+  mergedFields?: string[];
+};
+
+/** Apply an update, merging around concurrent edits to other fields and refusing overlapping ones. */
+export async function updateWithConflictCheck(opts: ConflictAwareUpdate): Promise<UpdateOutcome> {
+  const paths = opts.sparse ? changedPaths(opts.patch) : "all";
+  const expected =
+    opts.expectedSyncToken ?? (opts.snapshot?.SyncToken !== undefined ? String(opts.snapshot.SyncToken) : undefined);
+
+  let current = await opts.fetchLatest();
+  if (!current?.Id || current.SyncToken === undefined) {
+    throw new QuickBooksError({
+      message: `Could not fetch existing ${opts.entity} or SyncToken.`,
+      category: "not_found",
+    });
+  }
+
+  // Without a snapshot, an unexpected SyncToken leaves no baseline (base undefined)
+  let base: any =
+    expected === undefined || expected === String(current.SyncToken) ? (opts.snapshot ?? current) : opts.snapshot;
+  const merged = new Set<string>();
+
+  for (let attempt = 1; ; attempt++) {
+    if (!base || String(base.SyncToken) !== String(current.SyncToken)) {
+      const conflicts = findConflicts(base, current, opts.patch, paths);
+      if (conflicts.length) {
+        throw new UpdateConflictError(
+          `The ${opts.entity} was changed by someone else (SyncToken ${expected ?? base?.SyncToken} -> ${current.SyncToken}) ` +
+            `and ${conflicts.length} field(s) being updated conflict: ${conflicts.map((c) => c.field).join(", ")}`,
+          conflicts,
+          String(current.SyncToken)
+        );
+      }
+      if (base) editedFields(base, current).forEach((f) => merged.add(f));
+    }
+
+    try {
+      const updated = await opts.write(
+        {
+          Id: current.Id,
+          SyncToken: current.SyncToken,
+          ...(opts.sparse ? { sparse: true } : {}),
+          ...opts.patch,
+        },
+        current
+      );
+      return { updated, ...(merged.size ? { mergedFields: [...merged] } : {}) };
+    } catch (err) {
+      // Someone wrote between our read and write: re-read and check again against what we read
+      if (!(err instanceof QuickBooksError && err.category === "stale_object") || attempt >= MAX_ATTEMPTS) throw err;
+      base = current;
+      current = await opts.fetchLatest();
+    }
+  }
+}
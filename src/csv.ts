@@ -0,0 +1,180 @@
+// --- CSV import/export ---
+//
+// RFC 4180 parsing and writing, plus the mapping between CSV columns and a tool's Zod input schema:
+// each column is a field path such as displayName or billAddr.line1 (one level of nesting), so a
+// row becomes the same input object the matching create tool takes.
+
+import { z } from "zod";
+import { InvalidInputError } from "./errors.js";
+
+// Spreadsheet apps evaluate a cell starting with one of these as a formula; plain numbers are safe
+const FORMULA_START = /^[=+\-@\t\r]/;
+const NUMBER = /^[+-]?\d+(\.\d+)?$/;
+
+/**
+ * Record values can be edited by anyone with access to the company, so a cell that would run as a
+ * formula when opened in Excel gets a leading ' (shown as text). stripFormulaGuard undoes it on import.
+ */
+function guardFormula(value: string): string {
+  return FORMULA_START.test(value) && !NUMBER.test(value) ? `'${value}` : value;
+}
+
+function stripFormulaGuard(value: string): string {
+  return value.startsWith("'") && FORMULA_START.test(value.slice(1)) ? value.slice(1) : value;
+}
+
+export function csvCell(value: string): string {
+  const cell = guardFormula(value);
+  return /[",\n\r]/.test(cell) || /^\s|\s$/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+export function toCsv(rows: string[][]): string {
+  return rows.map((r) => r.map(csvCell).join(",")).join("\n");
+}
+
+/** Parse CSV text into rows of cells. Quoted cells may hold commas, quotes ("") and newlines. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, "");
+
+  const endRow = () => {
+    row.push(cell);
+    // Blank lines carry no data
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch !== '"') cell += ch;
+      else if (src[i + 1] === '"') cell += src[++i];
+      else quoted = false;
+    } else if (ch === '"' && cell === "") {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cell += ch;
+    }
+  }
+  if (quoted) throw new InvalidInputError("CSV ends inside a quoted cell; check for a missing closing quote", "csv");
+  if (cell !== "" || row.length) endRow();
+  return rows;
+}
+
+export type CsvField = { path: string; boolean: boolean };
+
+function unwrap(type: z.ZodTypeAny): z.ZodTypeAny {
+  while (type instanceof z.ZodOptional || type instanceof z.ZodNullable || type instanceof z.ZodDefault) {
+    type = type._def.innerType;
+  }
+  return type;
+}
+
+/** Field paths of an input schema, with nested objects (addresses) flattened to billAddr.line1 etc. */
+export function csvFields(schema: z.AnyZodObject): CsvField[] {
+  return Object.entries(schema.shape).flatMap(([key, value]) => {
+    const type = unwrap(value as z.ZodTypeAny);
+    if (type instanceof z.ZodObject) {
+      return Object.entries(type.shape).map(([sub, subType]) => ({
+        path: `${key}.${sub}`,
+        boolean: unwrap(subType as z.ZodTypeAny) instanceof z.ZodBoolean,
+      }));
+    }
+    return [{ path: key, boolean: type instanceof z.ZodBoolean }];
+  });
+}
+
+// "Bill Addr Line1", "bill_addr.line1" and "billAddr.line1" all name the same field
+const columnKey = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export type ColumnMapping = {
+  // Field path for each CSV column, or undefined when the column is not imported
+  columns: (string | undefined)[];
+  ignored: string[];
+};
+
+/**
+ * Map CSV headers to field paths: explicit `mapping` (header -> field path) first, then headers that
+ * name a field (ignoring case, spaces and punctuation). `extra` lists accepted non-schema columns.
+ */
+export function mapColumns(
+  headers: string[],
+  fields: CsvField[],
+  mapping: Record<string, string> = {},
+  extra: string[] = []
+): ColumnMapping {
+  const known = new Map([...fields.map((f) => f.path), ...extra].map((p) => [columnKey(p), p]));
+  for (const [header, target] of Object.entries(mapping)) {
+    if (!known.has(columnKey(target))) {
+      throw new InvalidInputError(`mapping for "${header}" targets unknown field "${target}"`, "mapping");
+    }
+    if (!headers.includes(header)) {
+      throw new InvalidInputError(`mapping names column "${header}", which is not in the CSV header`, "mapping");
+    }
+  }
+
+  const columns = headers.map((h) => known.get(columnKey(mapping[h] ?? h)));
+  const seen = new Map<string, string>();
+  headers.forEach((h, i) => {
+    const field = columns[i];
+    if (!field) return;
+    if (seen.has(field)) {
+      throw new InvalidInputError(`Columns "${seen.get(field)}" and "${h}" both map to ${field}`, "mapping");
+    }
+    seen.set(field, h);
+  });
+  return { columns, ignored: headers.filter((_, i) => !columns[i]) };
+}
+
+const TRUE_VALUES = new Set(["true", "yes", "y", "1"]);
+const FALSE_VALUES = new Set(["false", "no", "n", "0"]);
+
+/**
+ * Build an input object from one CSV row. Empty cells are left out and formula guards removed;
+ * boolean fields accept true/false, yes/no, y/n and 1/0. Unreadable booleans are returned as errors.
+ */
+export function rowToInput(
+  cells: string[],
+  columns: (string | undefined)[],
+  fields: CsvField[]
+): { input: Record<string, any>; errors: string[] } {
+  const booleans = new Set(fields.filter((f) => f.boolean).map((f) => f.path));
+  const input: Record<string, any> = {};
+  const errors: string[] = [];
+
+  columns.forEach((path, i) => {
+    const raw = stripFormulaGuard((cells[i] ?? "").trim());
+    if (!path || raw === "") return;
+    let value: string | boolean = raw;
+    if (booleans.has(path)) {
+      const v = raw.toLowerCase();
+      if (!TRUE_VALUES.has(v) && !FALSE_VALUES.has(v)) {
+        errors.push(`${path}: expected true/false, got "${raw}"`);
+        return;
+      }
+      value = TRUE_VALUES.has(v);
+    }
+    const [key, sub] = path.split(".");
+    if (sub) input[key] = { ...input[key], [sub]: value };
+    else input[key] = value;
+  });
+  return { input, errors };
+}
+
+/** One CSV row for an input object, in the order of `paths`. */
+export function inputToRow(input: Record<string, any>, paths: string[]): string[] {
+  return paths.map((path) => {
+    const value = path.split(".").reduce((obj: any, key) => obj?.[key], input);
+    return value === undefined || value === null ? "" : String(value);
+  });
+}
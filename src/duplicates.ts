@@ -0,0 +1,230 @@
+// --- Duplicate customers ---
+//
+// Scores pairs of customers on normalized display/company names, emails, phones and billing
+// addresses. Only customers sharing at least one blocking key (a name token, email, phone or
+// address) are compared, so large customer lists stay cheap. Pairs at or above the threshold are
+// clustered into groups, and a survivor is suggested for each group for merge_customers.
+
+const LEGAL_SUFFIXES = /\b(inc|incorporated|llc|l\.l\.c|ltd|limited|corp|corporation|co|company|plc|gmbh|pty|the)\b\.?/g;
+
+/** Lowercase, drop punctuation and legal suffixes so "Acme, Inc." and "ACME Incorporated" compare equal. */
+export function normalizeName(name: string | undefined): string {
+  return (name ?? "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(LEGAL_SUFFIXES, " ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+export function normalizeEmail(email: string | undefined): string {
+  return (email ?? "").trim().toLowerCase();
+}
+
+/** Digits only, without a leading country code, so "+1 (555) 010-2000" matches "555.010.2000". */
+export function normalizePhone(phone: string | undefined): string {
+  const digits = (phone ?? "").replace(/\D/g, "");
+  return digits.length > 10 ? digits.slice(-10) : digits.length >= 7 ? digits : "";
+}
+
+export function normalizeAddress(addr: any): string {
+  if (!addr?.Line1) return "";
+  const line = String(addr.Line1)
+    .toLowerCase()
+    .replace(/\b(street)\b/g, "st")
+    .replace(/\b(avenue)\b/g, "ave")
+    .replace(/\b(road)\b/g, "rd")
+    .replace(/\b(suite)\b/g, "ste")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+  return [line, String(addr.PostalCode ?? "").replace(/\s/g, "").toLowerCase()].join("|");
+}
+
+// Levenshtein similarity in [0, 1]
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return 1 - prev[b.length] / Math.max(a.length, b.length);
+}
+
+type Keys = { names: string[]; email: string; phones: string[]; address: string };
+
+function keysOf(c: any): Keys {
+  return {
+    names: [...new Set([normalizeName(c.DisplayName), normalizeName(c.CompanyName)].filter(Boolean))],
+    email: normalizeEmail(c.PrimaryEmailAddr?.Address),
+    phones: [...new Set([c.PrimaryPhone, c.Mobile, c.AlternatePhone].map((p) => normalizePhone(p?.FreeFormNumber)))]
+      .filter(Boolean),
+    address: normalizeAddress(c.BillAddr),
+  };
+}
+
+export type DuplicateMatch = {
+  ids: [string, string];
+  score: number;
+  reasons: string[];
+};
+
+// Score two customers; 0 when nothing matches
+function scorePair(a: Keys, b: Keys): { score: number; reasons: string[] } {
+  const reasons: string[] = [];
+  let score = 0;
+
+  let nameSim = 0;
+  for (const x of a.names) for (const y of b.names) nameSim = Math.max(nameSim, similarity(x, y));
+  if (nameSim === 1) {
+    score += 0.6;
+    reasons.push("same normalized name");
+  } else if (nameSim >= 0.8) {
+    score += 0.6 * nameSim - 0.1;
+    reasons.push(`similar name (${Math.round(nameSim * 100)}%)`);
+  }
+  if (a.email && a.email === b.email) {
+    score += 0.35;
+    reasons.push("same email");
+  }
+  if (a.phones.some((p) => b.phones.includes(p))) {
+    score += 0.25;
+    reasons.push("same phone");
+  }
+  if (a.address && a.address === b.address) {
+    score += 0.2;
+    reasons.push("same billing address");
+  }
+  return { score: Math.min(1, Math.round(score * 100) / 100), reasons };
+}
+
+export type DuplicateGroup = {
+  customers: any[];
+  // Best-scoring pairs that joined the group
+  matches: DuplicateMatch[];
+  score: number;
+  suggestedSurvivorId: string;
+};
+
+/**
+ * Prefer the record with an open balance, then the most complete contact details, then the oldest.
+ * Merging into it keeps transactions where they are.
+ */
+export function pickSurvivor(customers: any[]): any {
+  const completeness = (c: any) =>
+    [c.PrimaryEmailAddr?.Address, c.PrimaryPhone?.FreeFormNumber, c.BillAddr?.Line1, c.CompanyName, c.WebAddr?.URI]
+      .filter(Boolean).length;
+  return [...customers].sort(
+    (a, b) =>
+      Number(b.Balance ?? 0) - Number(a.Balance ?? 0) ||
+      completeness(b) - completeness(a) ||
+      String(a.MetaData?.CreateTime ?? "").localeCompare(String(b.MetaData?.CreateTime ?? "")) ||
+      Number(a.Id) - Number(b.Id)
+  )[0];
+}
+
+/**
+ * Groups of likely duplicates among `customers`, best first. With focusId only the group containing
+ * that customer is returned.
+ */
+export function findDuplicateGroups(customers: any[], minScore = 0.6, focusId?: string): DuplicateGroup[] {
+  const keys = new Map(customers.map((c) => [String(c.Id), keysOf(c)]));
+  const byId = new Map(customers.map((c) => [String(c.Id), c]));
+
+  // Blocking: only customers sharing a name token, email, phone or address are compared
+  const blocks = new Map<string, string[]>();
+  const block = (key: string, id: string) => blocks.set(key, [...(blocks.get(key) ?? []), id]);
+  for (const [id, k] of keys) {
+    for (const name of k.names) for (const token of name.split(" ").filter((t) => t.length > 2)) block(`n:${token}`, id);
+    if (k.email) block(`e:${k.email}`, id);
+    for (const phone of k.phones) block(`p:${phone}`, id);
+    if (k.address) block(`a:${k.address}`, id);
+  }
+
+  const matches = new Map<string, DuplicateMatch>();
+  for (const ids of blocks.values()) {
+    // A token shared by hundreds of customers ("services") is not a useful signal on its own
+    if (ids.length < 2 || ids.length > 200) continue;
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const pair: [string, string] = ids[i] < ids[j] ? [ids[i], ids[j]] : [ids[j], ids[i]];
+        const key = pair.join("|");
+        if (matches.has(key)) continue;
+        if (focusId && !pair.includes(focusId)) continue;
+        const { score, reasons } = scorePair(keys.get(pair[0])!, keys.get(pair[1])!);
+        if (score >= minScore) matches.set(key, { ids: pair, score, reasons });
+      }
+    }
+  }
+
+  // Union-find over matching pairs
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    const p = parent.get(id) ?? id;
+    if (p === id) return id;
+    const root = find(p);
+    parent.set(id, root);
+    return root;
+  };
+  for (const m of matches.values()) parent.set(find(m.ids[0]), find(m.ids[1]));
+
+  const groups = new Map<string, DuplicateMatch[]>();
+  for (const m of matches.values()) {
+    const root = find(m.ids[0]);
+    groups.set(root, [...(groups.get(root) ?? []), m]);
+  }
+
+  return [...groups.values()]
+    .map((ms): DuplicateGroup => {
+      const members = [...new Set(ms.flatMap((m) => m.ids))].map((id) => byId.get(id));
+      return {
+        customers: members,
+        matches: ms.sort((a, b) => b.score - a.score),
+        score: Math.max(...ms.map((m) => m.score)),
+        suggestedSurvivorId: String(pickSurvivor(members).Id),
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+// Contact fields merge_customers copies from the other records when the survivor lacks them
+export const MERGEABLE_FIELDS = [
+  "CompanyName",
+  "GivenName",
+  "FamilyName",
+  "PrimaryEmailAddr",
+  "PrimaryPhone",
+  "Mobile",
+  "AlternatePhone",
+  "Fax",
+  "WebAddr",
+  "BillAddr",
+  "ShipAddr",
+] as const;
+
+/** Sparse patch filling the survivor's empty contact fields from the first other record that has them. */
+export function mergePatch(survivor: any, others: any[]): { patch: Record<string, any>; sources: Record<string, string> } {
+  const patch: Record<string, any> = {};
+  const sources: Record<string, string> = {};
+  const isEmpty = (v: any) => v === undefined || v === null || v === "" || (typeof v === "object" && !Object.keys(v).length);
+
+  for (const field of MERGEABLE_FIELDS) {
+    if (!isEmpty(survivor[field])) continue;
+    const donor = others.find((o) => !isEmpty(o[field]));
+    if (!donor) continue;
+    const value = donor[field];
+    if (value && typeof value === "object") {
+      // Addresses are copied without their Id, which belongs to the other record
+      const { Id: _id, ...rest } = value;
+      patch[field] = rest;
+    } else {
+      patch[field] = value;
+    }
+    sources[field] = String(donor.Id);
+  }
+  return { patch, sources };
+}
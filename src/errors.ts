@@ -0,0 +1,249 @@
+// --- QuickBooks errors ---
+//
+// QBO reports failures as a Fault with one or more Error entries (code, element, detail). We parse
+// that into QuickBooksError with a coarse category the model can act on, and turn any error thrown
+// by a tool handler into an MCP isError result instead of an opaque exception string.
+
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { QueryValidationError } from "./queryBuilder.js";
+import { OAuthError } from "./oauth.js";
+import { RetryableError } from "./scheduler.js";
+
+export type QbErrorCategory =
+  | "auth"
+  | "permission"
+  | "validation"
+  | "duplicate"
+  | "stale_object"
+  | "not_found"
+  | "business_rule"
+  | "rate_limited"
+  | "server"
+  | "network"
+  | "confirmation_required"
+  | "unknown";
+
+export type QbFaultDetail = {
+  code?: string;
+  message?: string;
+  detail?: string;
+  element?: string;
+};
+
+// What the model should try next for each category
+const HINTS: Record<QbErrorCategory, string> = {
+  auth: "The QuickBooks connection needs re-authorization; ask the user to run the OAuth flow (/auth).",
+  permission: "The connected user lacks permission for this operation in QuickBooks.",
+  validation: "Fix the input fields named in the error and retry.",
+  duplicate: "A record with this name already exists; look it up and use or update it instead of creating another.",
+  stale_object: "The record changed since it was read; review the conflicting fields, fetch it again and reapply the change.",
+  not_found: "Check the Id; the record may have been deleted or belong to another company.",
+  business_rule: "QuickBooks rejected the change under an accounting rule; adjust the request as described.",
+  rate_limited: "QuickBooks is throttling requests; wait a minute before retrying.",
+  server: "QuickBooks had a temporary problem; retry later.",
+  network: "Could not reach QuickBooks; retry later.",
+  confirmation_required:
+    "Show the preview to the user; once they approve, repeat the same call with the confirmationToken.",
+  unknown: "",
+};
+
+// Well-known QBO error codes
+const CODE_CATEGORIES: Record<string, QbErrorCategory> = {
+  "6240": "duplicate", // Duplicate Name Exists
+  "6140": "duplicate", // Duplicate Document Number
+  "5010": "stale_object", // Stale Object Error (SyncToken mismatch)
+  "610": "not_found", // Object Not Found
+  "620": "not_found", // Transaction not found
+  "3200": "auth", // AuthenticationFailed / token expired
+  "3100": "auth", // ApplicationAuthenticationFailed
+  "003200": "auth",
+  "3001": "rate_limited", // ThrottleExceeded
+  "3003": "rate_limited",
+  "2020": "validation", // Required param missing
+  "2030": "validation", // Invalid ID
+  "2050": "validation", // String length invalid
+  "2090": "validation", // Invalid enumeration
+  "2500": "validation", // Invalid Reference Id
+  "6000": "business_rule", // Business Validation Error
+};
+
+function categorize(status: number, code: string | undefined, faultType: string | undefined): QbErrorCategory {
+  if (code && CODE_CATEGORIES[code]) return CODE_CATEGORIES[code];
+  const type = (faultType ?? "").toLowerCase();
+  if (status === 401 || type.includes("authentication")) return "auth";
+  if (status === 403 || type.includes("authorization")) return "permission";
+  if (status === 404) return "not_found";
+  if (status === 429) return "rate_limited";
+  if (status >= 500) return "server";
+  if (type.includes("validation")) return "validation";
+  return "unknown";
+}
+
+export class QuickBooksError extends Error {
+  readonly status: number;
+  readonly category: QbErrorCategory;
+  readonly code?: string;
+  readonly element?: string;
+  readonly detail?: string;
+  readonly faultType?: string;
+  readonly errors: QbFaultDetail[];
+  readonly intuitTid?: string;
+  // Safe to retry as-is (throttling/transient); consulted by withRetry
+  readonly retryable: boolean;
+  readonly retryAfterMs?: number;
+
+  constructor(init: {
+    message: string;
+    status?: number;
+    category?: QbErrorCategory;
+    faultType?: string;
+    errors?: QbFaultDetail[];
+    intuitTid?: string;
+    retryable?: boolean;
+    retryAfterMs?: number;
+  }) {
+    super(init.message);
+    this.name = "QuickBooksError";
+    this.status = init.status ?? 0;
+    this.errors = init.errors ?? [];
+    const first = this.errors[0] ?? {};
+    this.code = first.code;
+    this.element = first.element || undefined;
+    this.detail = first.detail;
+    this.faultType = init.faultType;
+    this.category = init.category ?? categorize(this.status, this.code, this.faultType);
+    this.intuitTid = init.intuitTid;
+    this.retryable = init.retryable ?? false;
+    this.retryAfterMs = init.retryAfterMs;
+  }
+}
+
+/** One field edited both by this update and concurrently by someone else. base is omitted when unknown. */
+export type FieldConflict = {
+  field: string;
+  base?: unknown;
+  current: unknown;
+  proposed: unknown;
+};
+
+/** An update whose fields overlap a concurrent edit (category stale_object). */
+export class UpdateConflictError extends QuickBooksError {
+  constructor(
+    message: string,
+    readonly conflicts: FieldConflict[],
+    readonly currentSyncToken: string
+  ) {
+    super({ message, category: "stale_object" });
+    this.name = "UpdateConflictError";
+  }
+}
+
+/** A write the confirmation policy holds back until the caller repeats it with a token. */
+export class ConfirmationRequiredError extends QuickBooksError {
+  constructor(
+    message: string,
+    // What the write would send (see confirmations.ts); absent when no fresh preview was made
+    readonly preview?: unknown,
+    readonly confirmationToken?: string,
+    readonly expiresAt?: string
+  ) {
+    super({ message, category: "confirmation_required" });
+    this.name = "ConfirmationRequiredError";
+  }
+}
+
+/** Input that failed our own checks before reaching QuickBooks (category validation). */
+export class InvalidInputError extends Error {
+  constructor(message: string, readonly element?: string) {
+    super(message);
+    this.name = "InvalidInputError";
+  }
+}
+
+// QBO uses Fault/Error/Message in JSON and fault/error/message in some auth responses
+function pick(obj: any, key: string): any {
+  if (!obj || typeof obj !== "object") return undefined;
+  return obj[key] ?? obj[key.toLowerCase()] ?? obj[key[0].toLowerCase() + key.slice(1)];
+}
+
+type FaultExtra = { intuitTid?: string; retryable?: boolean; retryAfterMs?: number };
+
+/** Parse a failed response body (JSON Fault, or anything else) into a QuickBooksError. */
+export function parseQbFault(status: number, body: string, extra: FaultExtra = {}): QuickBooksError {
+  let fault: any;
+  try {
+    const json = JSON.parse(body);
+    fault = pick(json, "Fault");
+  } catch {
+    // Non-JSON (HTML gateway page, XML auth error); fall through with the raw text
+  }
+  return faultToError(status, fault, extra, body);
+}
+
+/** Build a QuickBooksError from an already-parsed Fault object (e.g. one /batch item). */
+export function faultToError(status: number, fault: any, extra: FaultExtra = {}, rawBody = ""): QuickBooksError {
+  const errors: QbFaultDetail[] = (pick(fault, "Error") ?? []).map((e: any) => ({
+    code: pick(e, "code") !== undefined ? String(pick(e, "code")) : undefined,
+    message: pick(e, "Message"),
+    detail: pick(e, "Detail"),
+    element: pick(e, "element"),
+  }));
+
+  const first = errors[0];
+  const summary = first
+    ? [first.message, first.detail].filter(Boolean).join(": ")
+    : rawBody.replace(/\s+/g, " ").trim().slice(0, 300) || `HTTP ${status}`;
+
+  return new QuickBooksError({
+    message: `QuickBooks ${status}${first?.code ? ` (code ${first.code})` : ""}: ${summary}`,
+    status,
+    faultType: pick(fault, "type"),
+    errors,
+    ...extra,
+  });
+}
+
+/** Convert anything thrown by a tool handler into an MCP error result. */
+export function toToolError(err: unknown): CallToolResult {
+  let message: string;
+  let info: Record<string, unknown>;
+
+  if (err instanceof QuickBooksError) {
+    message = err.message;
+    info = {
+      category: err.category,
+      status: err.status || undefined,
+      code: err.code,
+      element: err.element,
+      detail: err.detail,
+      intuitTid: err.intuitTid,
+      ...(err.errors.length > 1 ? { errors: err.errors } : {}),
+      ...(err instanceof UpdateConflictError
+        ? { currentSyncToken: err.currentSyncToken, conflicts: err.conflicts }
+        : {}),
+      ...(err instanceof ConfirmationRequiredError
+        ? { confirmationToken: err.confirmationToken, expiresAt: err.expiresAt, preview: err.preview }
+        : {}),
+    };
+  } else if (err instanceof InvalidInputError || err instanceof QueryValidationError) {
+    message = err.message;
+    info = { category: "validation", element: (err as InvalidInputError).element };
+  } else if (err instanceof OAuthError) {
+    message = err.message;
+    info = { category: "auth" };
+  } else if (err instanceof RetryableError) {
+    message = err.message;
+    info = { category: "network" };
+  } else {
+    message = err instanceof Error ? err.message : String(err);
+    info = { category: "unknown" };
+  }
+
+  const hint = HINTS[info.category as QbErrorCategory];
+  // Round-trip drops undefined fields so the model only sees what QBO actually reported
+  const payload = JSON.parse(JSON.stringify({ error: { ...info, ...(hint ? { hint } : {}) } }));
+  return {
+    isError: true,
+    content: [{ type: "text", text: `${message}\n\n${JSON.stringify(payload, null, 2)}` }],
+  };
+}
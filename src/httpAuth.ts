@@ -0,0 +1,138 @@
+// --- MCP endpoint authentication ---
+//
+// Bearer tokens on the HTTP MCP endpoints are either static API keys (MCP_API_KEYS) or OAuth access
+// tokens checked against an authorization server's RFC 7662 introspection endpoint. Both resolve to
+// the SDK's AuthInfo, whose clientId owns the sessions a caller opens.
+
+import crypto from "crypto";
+import fetch from "node-fetch";
+import type { OAuthTokenVerifier } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { InvalidTokenError, ServerError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+
+// API keys never expire, and introspection may omit "exp"; the SDK middleware still wants an
+// expiry, so each check of such a token grants this long
+const NO_EXPIRY_VALIDITY_SECONDS = 60 * 60;
+
+// Introspection results are reused this long (never past the token's expiry) instead of calling
+// the authorization server on every request
+const INTROSPECTION_CACHE_SECONDS = 60;
+const INTROSPECTION_CACHE_MAX = 1000;
+
+export type ApiKey = { name: string; digest: Buffer };
+
+export type IntrospectionConfig = {
+  url: string;
+  clientId?: string;
+  clientSecret?: string;
+  // Expected "aud" of the token, normally this server's /mcp URL
+  audience?: string;
+};
+
+const sha256 = (value: string) => crypto.createHash("sha256").update(value).digest();
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+/**
+ * Parse MCP_API_KEYS: comma-separated "name:key" pairs (or bare keys, named key1, key2, ...).
+ * Only digests are kept so keys can be compared in constant time.
+ */
+export function parseApiKeys(value: string | undefined): ApiKey[] {
+  return (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry, i) => {
+      const sep = entry.indexOf(":");
+      const [name, key] = sep > 0 ? [entry.slice(0, sep), entry.slice(sep + 1)] : [`key${i + 1}`, entry];
+      return { name, digest: sha256(key) };
+    });
+}
+
+function matchApiKey(keys: ApiKey[], token: string): ApiKey | undefined {
+  const digest = sha256(token);
+  // Compare against every key so timing does not reveal which one matched
+  let match: ApiKey | undefined;
+  for (const key of keys) if (crypto.timingSafeEqual(key.digest, digest)) match ??= key;
+  return match;
+}
+
+async function introspect(config: IntrospectionConfig, token: string): Promise<AuthInfo> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+    Accept: "application/json",
+  };
+  if (config.clientId) {
+    const basic = Buffer.from(`${config.clientId}:${config.clientSecret ?? ""}`).toString("base64");
+    headers.Authorization = `Basic ${basic}`;
+  }
+
+  let data: any;
+  try {
+    const resp = await fetch(config.url, { method: "POST", headers, body: new URLSearchParams({ token }).toString() });
+    if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
+    data = await resp.json();
+  } catch (err) {
+    throw new ServerError(`Token introspection failed: ${(err as Error).message}`);
+  }
+
+  if (!data?.active) throw new InvalidTokenError("Token is not active");
+  if (config.audience) {
+    const audiences = Array.isArray(data.aud) ? data.aud : [data.aud];
+    if (!audiences.includes(config.audience)) throw new InvalidTokenError("Token was not issued for this server");
+  }
+
+  return {
+    token,
+    clientId: String(data.client_id ?? data.sub ?? "oauth"),
+    scopes: typeof data.scope === "string" ? data.scope.split(" ").filter(Boolean) : [],
+    expiresAt: Number.isFinite(Number(data.exp)) ? Number(data.exp) : nowSeconds() + NO_EXPIRY_VALIDITY_SECONDS,
+    extra: { kind: "oauth", ...(data.sub ? { subject: data.sub } : {}) },
+  };
+}
+
+/**
+ * Verifier for the SDK's requireBearerAuth middleware: API keys first, then introspection when
+ * configured. Returns undefined when neither is configured.
+ */
+export function createTokenVerifier(opts: {
+  apiKeys: ApiKey[];
+  introspection?: IntrospectionConfig;
+}): OAuthTokenVerifier | undefined {
+  const { apiKeys, introspection } = opts;
+  if (!apiKeys.length && !introspection) return undefined;
+
+  // Keyed by token digest; only active tokens are cached
+  const introspected = new Map<string, { info: AuthInfo; until: number }>();
+  const introspectCached = async (config: IntrospectionConfig, token: string): Promise<AuthInfo> => {
+    const key = sha256(token).toString("hex");
+    const now = nowSeconds();
+    const hit = introspected.get(key);
+    if (hit && hit.until > now) return hit.info;
+    introspected.delete(key);
+
+    const info = await introspect(config, token);
+    for (const [k, entry] of introspected) if (entry.until <= now) introspected.delete(k);
+    // Oldest first
+    while (introspected.size >= INTROSPECTION_CACHE_MAX) introspected.delete(introspected.keys().next().value!);
+    introspected.set(key, { info, until: Math.min(now + INTROSPECTION_CACHE_SECONDS, info.expiresAt!) });
+    return info;
+  };
+
+  return {
+    async verifyAccessToken(token: string): Promise<AuthInfo> {
+      const key = matchApiKey(apiKeys, token);
+      if (key) {
+        return {
+          token,
+          clientId: `api-key:${key.name}`,
+          scopes: [],
+          expiresAt: nowSeconds() + NO_EXPIRY_VALIDITY_SECONDS,
+          extra: { kind: "api-key" },
+        };
+      }
+      if (introspection) return introspectCached(introspection, token);
+      throw new InvalidTokenError("Invalid API key");
+    },
+  };
+}
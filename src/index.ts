@@ -1,17 +1,90 @@
 #!/usr/bin/env node
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate, ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  InitializeRequest,
+  LATEST_PROTOCOL_VERSION,
+  ListResourcesRequestSchema,
+  Resource,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  isInitializeRequest,
+} from "@modelcontextprotocol/sdk/types.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { requireBearerAuth } from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
 import express from "express";
 import http from "http";
-import { z } from "zod";
+import net from "net";
+import { z, ZodRawShape } from "zod";
 import dotenv from "dotenv";
 import open from "open";
-import fs from "fs";
 import os from "os";
 import path from "path";
 import { fileURLToPath } from "url";
 import fetch from "node-fetch";
+import crypto from "crypto";
+import { AsyncLocalStorage } from "async_hooks";
+import { REPORT_NAMES, flattenReport, reportToCsv, reportToMarkdown } from "./reports.js";
+import {
+  ENTITY_FIELDS,
+  MAX_PAGE_SIZE,
+  QUERY_ENTITIES,
+  QUERY_OPERATORS,
+  QueryEntity,
+  QueryFilter,
+  QuerySpec,
+  buildCountQuery,
+  buildQuery,
+  decodeCursor,
+  encodeCursor,
+} from "./queryBuilder.js";
+import { TokenStore, createTokenStoreFromEnv } from "./tokenStore.js";
+import { RequestScheduler, RetryableError, parseRetryAfter, withRetry } from "./scheduler.js";
+import {
+  ConfirmationRequiredError,
+  InvalidInputError,
+  QuickBooksError,
+  parseQbFault,
+  toToolError,
+} from "./errors.js";
+import { UpdateOutcome, updateWithConflictCheck } from "./conflicts.js";
+import { BatchItemResult, BatchOperation, MAX_BATCH_SIZE, MAX_BULK_OPERATIONS, runBatch } from "./batch.js";
+import { CacheFilter, CdcSource, EntityCache, cacheFilePath, parseCdcResponse, queryRecords } from "./cdc.js";
+import { EventLog, parseWebhookPayload, verifyWebhookSignature } from "./webhooks.js";
+import { findDuplicateGroups, mergePatch, pickSurvivor } from "./duplicates.js";
+import { csvFields, inputToRow, mapColumns, parseCsv, rowToInput, toCsv } from "./csv.js";
+import { OUTPUT_FORMATS, outputFields, renderRecord, renderRecords, renderRows, shapeRecord } from "./output.js";
+import {
+  collectionsPrompt,
+  duplicateCleanupPrompt,
+  monthEndPrompt,
+  vendorStatementPrompt,
+} from "./prompts.js";
+import { createTokenVerifier, parseApiKeys } from "./httpAuth.js";
+import { AuditLog, AuditRecord, auditRecords, writeOperation } from "./audit.js";
+import {
+  CapturedWrite,
+  ConfirmationTokens,
+  DryRunStop,
+  WriteGate,
+  fieldDiff,
+  parseConfirmPolicy,
+  requiresConfirmation,
+} from "./confirmations.js";
+import { SessionRecord, createSessionStoreFromEnv } from "./sessions.js";
+import {
+  OAuthConfig,
+  OAuthError,
+  STATE_COOKIE,
+  authorizeUrl,
+  createState,
+  escapeHtml,
+  handleCallback,
+  readCookie,
+  refreshAccessToken,
+  revokeToken,
+} from "./oauth.js";
 
 // Get __dirname equivalent for ES modules
 const __filename = fileURLToPath(import.meta.url);
@@ -31,85 +104,349 @@ const CREDS_PATH = path.join(CONFIG_DIR, "credentials.json");
 const CLIENT_ID = process.env.QB_CLIENT_ID!;
 const CLIENT_SECRET = process.env.QB_CLIENT_SECRET!;
 const REDIRECT_URI = process.env.REDIRECT_URI || "http://localhost:3001/callback";
-const QB_BASE = "https://sandbox-quickbooks.api.intuit.com/v3/company";
 const REALM_ID = process.env.QB_REALM_ID!;
 const PORT = process.env.PORT || 3000;
 
+const OAUTH_CONFIG: OAuthConfig = { clientId: CLIENT_ID, clientSecret: CLIENT_SECRET, redirectUri: REDIRECT_URI };
+
 // Use a supported minor version (>=75)
 const MINOR_VERSION = 75;
 
-let tokens: Record<string, any> | null = null;
+// A non-negative whole number from the environment; 0 is allowed, anything else unreadable falls back
+function envCount(name: string, fallback: number): number {
+  const n = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(n) && n >= 0 ? Math.floor(n) : fallback;
+}
 
-// Save/load tokens - modified for serverless environment
-function saveTokens(newTokens: any) {
-  if (process.env.VERCEL) {
-    // In Vercel, we can't write to filesystem, so we'll need to use external storage
-    // For now, we'll just keep tokens in memory (they'll be lost on cold starts)
-    tokens = newTokens;
-    console.error("Tokens saved to memory (Vercel environment)");
-  } else {
-    if (!fs.existsSync(CONFIG_DIR)) fs.mkdirSync(CONFIG_DIR, { recursive: true });
-    fs.writeFileSync(CREDS_PATH, JSON.stringify(newTokens, null, 2));
-  }
+// Per-realm throttling: QBO allows ~500 requests/minute and 10 concurrent requests per realm
+const QB_MAX_CONCURRENT = Number(process.env.QB_MAX_CONCURRENT) || 10;
+const QB_RATE_LIMIT_PER_MINUTE = Number(process.env.QB_RATE_LIMIT_PER_MINUTE) || 450;
+// 0 turns retries off
+const QB_MAX_RETRIES = envCount("QB_MAX_RETRIES", 4);
+
+// Upper bound on rows returned by a "fetch all" query walk
+const FETCH_ALL_ROW_LIMIT = Number(process.env.QB_FETCH_ALL_LIMIT) || 5000;
+
+// Local CDC cache: where it lives, and how stale a cached read may be before syncing first
+const QB_CACHE_DIR =
+  process.env.QB_CACHE_DIR ||
+  (process.env.VERCEL ? path.join(os.tmpdir(), "quickbooks-mcp-cache") : path.join(CONFIG_DIR, "cache"));
+const CACHE_MAX_AGE_SECONDS = envCount("QB_CACHE_MAX_AGE", 300);
+// Background sync interval; 0 syncs only on demand
+const CDC_POLL_SECONDS = Number(process.env.QB_CDC_POLL_SECONDS) || 0;
+
+// Webhooks: verifier token from the Intuit developer portal, and where received events are kept
+const WEBHOOK_VERIFIER_TOKEN = process.env.QB_WEBHOOK_VERIFIER_TOKEN || "";
+const WEBHOOK_EVENTS_FILE =
+  process.env.QB_WEBHOOK_EVENTS_FILE ||
+  path.join(process.env.VERCEL ? os.tmpdir() : CONFIG_DIR, "webhook-events.json");
+
+// Append-only JSONL record of every write sent to QuickBooks; off unless QB_AUDIT_LOG names a file,
+// since each audited update or delete also reads the record first
+const AUDIT_LOG_FILE = process.env.QB_AUDIT_LOG || undefined;
+// Vercel's file system is per instance and wiped on cold starts, wherever QB_AUDIT_LOG points
+const AUDIT_LOG_WARNING = process.env.VERCEL && AUDIT_LOG_FILE
+  ? "This deployment keeps the audit log on a serverless instance's temporary disk: it only holds " +
+    "writes made through this instance since its last cold start. Do not rely on it as the audit trail."
+  : undefined;
+
+// HTTP MCP endpoints: bearer API keys and/or OAuth tokens checked by introspection. With neither
+// configured they refuse every request, unless MCP_ALLOW_UNAUTHENTICATED=true (local development).
+const MCP_TOKEN_VERIFIER = createTokenVerifier({
+  apiKeys: parseApiKeys(process.env.MCP_API_KEYS),
+  introspection: process.env.MCP_OAUTH_INTROSPECTION_URL
+    ? {
+        url: process.env.MCP_OAUTH_INTROSPECTION_URL,
+        clientId: process.env.MCP_OAUTH_CLIENT_ID,
+        clientSecret: process.env.MCP_OAUTH_CLIENT_SECRET,
+        audience: process.env.MCP_OAUTH_AUDIENCE,
+      }
+    : undefined,
+});
+const MCP_ALLOW_UNAUTHENTICATED = process.env.MCP_ALLOW_UNAUTHENTICATED === "true";
+// Authorization server advertised in the protected resource metadata, and this server's public URL
+const MCP_OAUTH_ISSUER = process.env.MCP_OAUTH_ISSUER || "";
+const MCP_PUBLIC_URL = (process.env.MCP_PUBLIC_URL || "").replace(/\/+$/, "");
+// Browser origins allowed to call the MCP endpoints; none by default
+const MCP_ALLOWED_ORIGINS = (process.env.MCP_ALLOWED_ORIGINS ?? "")
+  .split(",")
+  .map((o) => o.trim())
+  .filter(Boolean);
+// Streamable HTTP sessions unused for this long are closed and forgotten
+const MCP_SESSION_TTL_SECONDS = Number(process.env.MCP_SESSION_TTL_SECONDS) || 60 * 60;
+
+// Which mutating tools need a confirmation token from a dryRun preview before they write
+const CONFIRM_POLICY = parseConfirmPolicy(process.env.QB_CONFIRM_WRITES);
+// Tokens are signed with this secret; set it when several instances serve the same clients
+const confirmationTokens = new ConfirmationTokens(
+  process.env.QB_CONFIRM_SECRET || crypto.randomBytes(32).toString("hex"),
+  Number(process.env.QB_CONFIRM_TTL_SECONDS) || 600
+);
+
+type QbEnvironment = "production" | "sandbox";
+
+const QB_BASE_URLS: Record<QbEnvironment, string> = {
+  production: "https://quickbooks.api.intuit.com/v3/company",
+  sandbox: "https://sandbox-quickbooks.api.intuit.com/v3/company",
+};
+
+// Default environment for newly connected companies (sandbox unless QB_ENVIRONMENT=production)
+const QB_ENVIRONMENT: QbEnvironment = process.env.QB_ENVIRONMENT === "production" ? "production" : "sandbox";
+
+// Optional friendly names for realms, e.g. QB_COMPANY_ALIASES="acme=1234567890,globex=9876543210"
+const COMPANY_ALIASES: Record<string, string> = Object.fromEntries(
+  (process.env.QB_COMPANY_ALIASES ?? "")
+    .split(",")
+    .map((pair) => pair.split("=").map((p) => p.trim()))
+    .filter(([alias, realmId]) => alias && realmId)
+    .map(([alias, realmId]) => [realmId, alias])
+);
+
+// One connected QuickBooks company (realm) with its own environment and OAuth tokens
+type CompanyConnection = {
+  realmId: string;
+  alias?: string;
+  environment: QbEnvironment;
+  tokens: Record<string, any> | null;
+};
+
+const companies = new Map<string, CompanyConnection>();
+let defaultRealmId: string | undefined = REALM_ID || undefined;
+
+// Company selected for the tool call currently executing (see companyTool in createMcpServer)
+const companyContext = new AsyncLocalStorage<CompanyConnection>();
+
+// Set while a mutating tool runs as a dry run or with a confirmation token (see writeTool)
+const writeContext = new AsyncLocalStorage<WriteGate>();
+
+// The tool call being executed and who made it, for the audit log (see companyTool)
+type ToolCall = { tool: string; sessionId?: string; client?: string };
+const toolContext = new AsyncLocalStorage<ToolCall>();
+
+function upsertCompany(realmId: string, patch: Partial<Omit<CompanyConnection, "realmId">>): CompanyConnection {
+  const existing = companies.get(realmId);
+  const company: CompanyConnection = {
+    realmId,
+    alias: COMPANY_ALIASES[realmId],
+    environment: QB_ENVIRONMENT,
+    tokens: null,
+    ...existing,
+    ...Object.fromEntries(Object.entries(patch).filter(([, v]) => v !== undefined)),
+  };
+  companies.set(realmId, company);
+  return company;
+}
+
+// Token persistence backend (file, encrypted file, HTTP key-value or memory; see tokenStore.ts)
+const tokenStore: TokenStore = createTokenStoreFromEnv(CREDS_PATH);
+
+// Where /mcp sessions and their replayable events are kept (see sessions.ts)
+const sessionStore = createSessionStoreFromEnv(path.join(CONFIG_DIR, "sessions"), MCP_SESSION_TTL_SECONDS * 1000);
+
+async function persistCompanies() {
+  await tokenStore.save({
+    defaultRealmId,
+    companies: Object.fromEntries(
+      [...companies.values()].map(({ realmId, alias, environment, tokens }) => [
+        realmId,
+        { alias, environment, tokens },
+      ])
+    ),
+  });
+}
+
+async function saveTokens(realmId: string, newTokens: Record<string, any>) {
+  upsertCompany(realmId, { tokens: newTokens });
+  if (!defaultRealmId) defaultRealmId = realmId;
+  await persistCompanies();
 }
 
 // Load saved tokens
-function loadTokens() {
-  if (!process.env.VERCEL && fs.existsSync(CREDS_PATH)) {
-    tokens = JSON.parse(fs.readFileSync(CREDS_PATH, "utf8"));
-  } else if (process.env.QB_ACCESS_TOKEN && process.env.QB_REFRESH_TOKEN) {
-    // Load from environment variables for production
-    tokens = {
-      access_token: process.env.QB_ACCESS_TOKEN,
-      refresh_token: process.env.QB_REFRESH_TOKEN,
-    };
+async function loadTokens() {
+  const saved: any = await tokenStore.load();
+  if (saved?.access_token || saved?.refresh_token) {
+    // Legacy single-company file: tokens at the top level, realm from QB_REALM_ID
+    if (REALM_ID) upsertCompany(REALM_ID, { tokens: saved });
+  } else if (saved) {
+    for (const [realmId, c] of Object.entries<any>(saved.companies ?? {})) {
+      upsertCompany(realmId, { alias: c.alias, environment: c.environment, tokens: c.tokens ?? null });
+    }
+    defaultRealmId = defaultRealmId ?? saved.defaultRealmId;
+  }
+
+  // Seed from environment variables only when the store has nothing newer for that realm
+  if (process.env.QB_ACCESS_TOKEN && process.env.QB_REFRESH_TOKEN && REALM_ID && !companies.get(REALM_ID)?.tokens) {
+    upsertCompany(REALM_ID, {
+      tokens: {
+        access_token: process.env.QB_ACCESS_TOKEN,
+        refresh_token: process.env.QB_REFRESH_TOKEN,
+      },
+    });
+  }
+}
+
+// Load once per process; a failed load is retried on the next call
+let tokensLoaded: Promise<void> | null = null;
+function ensureTokensLoaded(): Promise<void> {
+  if (!tokensLoaded) {
+    tokensLoaded = loadTokens().catch((err) => {
+      tokensLoaded = null;
+      throw err;
+    });
+  }
+  return tokensLoaded;
+}
+
+/**
+ * Pick the company a call targets: explicit realmId, then alias, then the default realm,
+ * then the only connected company.
+ */
+function resolveCompany(selector: { realmId?: string; companyAlias?: string } = {}): CompanyConnection {
+  if (selector.realmId) {
+    const company = companies.get(selector.realmId);
+    if (!company) throw new InvalidInputError(`Unknown company realmId ${selector.realmId}. Use list_companies to see connections.`);
+    return company;
+  }
+  if (selector.companyAlias) {
+    const wanted = selector.companyAlias.toLowerCase();
+    const company = [...companies.values()].find((c) => c.alias?.toLowerCase() === wanted);
+    if (!company) throw new InvalidInputError(`Unknown company alias "${selector.companyAlias}". Use list_companies to see connections.`);
+    return company;
   }
+  if (defaultRealmId && companies.has(defaultRealmId)) return companies.get(defaultRealmId)!;
+  if (companies.size === 1) return [...companies.values()][0];
+  if (companies.size === 0) throw new QuickBooksError({ message: "Not authenticated. Run auth first.", category: "auth" });
+  throw new InvalidInputError("Several companies are connected; pass realmId or companyAlias (see list_companies).");
+}
+
+// A realmId or alias, as given on the command line or in a qb:// resource URI
+function resolveCompanySelector(selector: string): CompanyConnection {
+  return companies.has(selector) ? resolveCompany({ realmId: selector }) : resolveCompany({ companyAlias: selector });
+}
+
+function currentCompany(): CompanyConnection {
+  return companyContext.getStore() ?? resolveCompany();
 }
 
 // --- OAuth2 helpers ---
 
-async function refreshTokens(): Promise<void> {
-  if (!tokens?.refresh_token) {
-    throw new Error("No refresh_token available; re-authentication required.");
+// Refresh this long before the access token (1 hour lifetime) actually expires
+const REFRESH_SKEW_MS = 5 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stamp absolute expiry times onto a token response (Intuit only returns relative seconds)
+function withExpiry(data: Record<string, any>, now = Date.now()): Record<string, any> {
+  const stamped = { ...data };
+  if (typeof data.expires_in === "number") stamped.expires_at = now + data.expires_in * 1000;
+  if (typeof data.x_refresh_token_expires_in === "number") {
+    stamped.refresh_token_expires_at = now + data.x_refresh_token_expires_in * 1000;
   }
-  const body = new URLSearchParams({
-    grant_type: "refresh_token",
-    refresh_token: tokens.refresh_token,
-  });
+  return stamped;
+}
 
-  const resp = await fetch(
-    "https://oauth.platform.intuit.com/oauth2/v1/tokens/bearer",
-    {
-      method: "POST",
-      headers: {
-        Authorization:
-          "Basic " +
-          Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString("base64"),
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-      body,
-    }
-  );
+// Expiry summary for list_companies / health output
+function tokenStatus(company: CompanyConnection) {
+  const t = company.tokens;
+  const now = Date.now();
+  return {
+    accessTokenExpiresAt: t?.expires_at ? new Date(t.expires_at).toISOString() : null,
+    refreshTokenExpiresAt: t?.refresh_token_expires_at ? new Date(t.refresh_token_expires_at).toISOString() : null,
+    // Days left before the user must run the OAuth flow again
+    reauthorizeInDays: t?.refresh_token_expires_at
+      ? Math.max(0, Math.floor((t.refresh_token_expires_at - now) / DAY_MS))
+      : null,
+  };
+}
 
-  if (!resp.ok) {
-    const text = await resp.text();
-    throw new Error(`Token refresh failed: ${resp.status} - ${text}`);
+function accessTokenExpiring(company: CompanyConnection): boolean {
+  const expiresAt = company.tokens?.expires_at;
+  return typeof expiresAt === "number" && expiresAt - Date.now() < REFRESH_SKEW_MS;
+}
+
+async function refreshTokensNow(company: CompanyConnection): Promise<void> {
+  // Another instance may already have rotated the refresh token; pick that up instead of
+  // spending the stale one (Intuit invalidates the old refresh token on rotation)
+  const stored = (await tokenStore.load())?.companies?.[company.realmId]?.tokens;
+  if (stored?.refresh_token && stored.refresh_token !== company.tokens?.refresh_token) {
+    company.tokens = stored;
+    if (!accessTokenExpiring(company)) return;
   }
 
-  const data = (await resp.json()) as Record<string, any>;
+  if (!company.tokens?.refresh_token) {
+    throw new QuickBooksError({ message: "No refresh_token available; re-authentication required.", category: "auth" });
+  }
+
+  const data = await refreshAccessToken(OAUTH_CONFIG, company.tokens.refresh_token);
   // Guard tokens (could be null) and assert merged object type
-  tokens = { ...(tokens ?? {}), ...(data ?? {}) } as Record<string, any>;
-  saveTokens(tokens);
+  const tokens = { ...(company.tokens ?? {}), ...withExpiry(data ?? {}) } as Record<string, any>;
+  company.tokens = tokens;
+  await saveTokens(company.realmId, tokens);
+}
+
+// In-flight refresh per realm: concurrent callers share one refresh instead of racing rotations
+const refreshInFlight = new Map<string, Promise<void>>();
+
+function refreshTokens(company: CompanyConnection): Promise<void> {
+  let pending = refreshInFlight.get(company.realmId);
+  if (!pending) {
+    pending = refreshTokensNow(company).finally(() => refreshInFlight.delete(company.realmId));
+    refreshInFlight.set(company.realmId, pending);
+  }
+  return pending;
+}
+
+// Store tokens from a completed authorization and record the alias chosen when it started
+async function connectCompany(realmId: string, tokens: Record<string, any>, alias?: string) {
+  if (alias) upsertCompany(realmId, { alias });
+  await saveTokens(realmId, withExpiry(tokens));
+  notifyResourceListChanged();
+}
+
+/**
+ * Revoke a company's refresh token at Intuit and forget it locally. The local tokens are cleared
+ * even when Intuit rejects the revoke (e.g. already revoked).
+ */
+async function disconnectCompany(company: CompanyConnection): Promise<{ realmId: string; revoked: boolean; error?: string }> {
+  const token = company.tokens?.refresh_token ?? company.tokens?.access_token;
+  let revoked = false;
+  let error: string | undefined;
+  if (token) {
+    try {
+      await revokeToken(OAUTH_CONFIG, token);
+      revoked = true;
+    } catch (err) {
+      error = (err as Error).message;
+    }
+  }
+
+  companies.delete(company.realmId);
+  if (defaultRealmId === company.realmId) defaultRealmId = companies.keys().next().value;
+  if (companies.size) await persistCompanies();
+  else await tokenStore.clear();
+  notifyResourceListChanged();
+
+  return { realmId: company.realmId, revoked, ...(error ? { error } : {}) };
+}
+
+function successPage(realmId: string) {
+  return `
+    <html>
+      <body>
+        <h2>Authentication successful!</h2>
+        <p>Connected company (realmId): ${escapeHtml(realmId)}</p>
+        <p>Tokens were saved to the server's token store. You can close this window.</p>
+      </body>
+    </html>
+  `;
 }
 
 // Authenticate user - modified for web environment
-async function authenticate() {
+async function authenticate(alias?: string) {
   const app = express();
   const server = http.createServer(app);
 
-  const authUrl = `https://appcenter.intuit.com/connect/oauth2?client_id=${CLIENT_ID}&redirect_uri=${encodeURIComponent(
-    REDIRECT_URI
-  )}&response_type=code&scope=com.intuit.quickbooks.accounting&state=12345`;
+  const { state, nonce } = createState(OAUTH_CONFIG, { alias });
+  const authUrl = authorizeUrl(OAUTH_CONFIG, state);
 
   console.log("Open this URL to authorize:", authUrl);
   if (!process.env.VERCEL) {
@@ -118,51 +455,22 @@ async function authenticate() {
 
   return new Promise<void>((resolve, reject) => {
     app.get("/callback", async (req, res) => {
-      const code = req.query.code as string;
-      if (!code) {
-        res.send("No code provided");
-        reject("No code");
-        return;
-      }
-
       try {
-        const resp = await fetch(
-          "https://oauth.platform.intuit.com/oauth2/v1/tokens/bearer",
-          {
-            method: "POST",
-            headers: {
-              Authorization:
-                "Basic " +
-                Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString("base64"),
-              "Content-Type": "application/x-www-form-urlencoded",
-            },
-            body: `grant_type=authorization_code&code=${encodeURIComponent(
-              code
-            )}&redirect_uri=${encodeURIComponent(REDIRECT_URI)}`,
-          }
-        );
+        const result = await handleCallback(OAUTH_CONFIG, req.query, { expectedNonce: nonce, defaultRealmId: REALM_ID });
+        await connectCompany(result.realmId, result.tokens, result.state.alias);
 
-        const data = await resp.json();
-        tokens = data as Record<string, any>;
-        saveTokens(tokens);
-
-        res.send(`
-          <html>
-            <body>
-              <h2>Authentication successful!</h2>
-              <p>Your tokens:</p>
-              <pre>${JSON.stringify(tokens, null, 2)}</pre>
-              <p><strong>Save these environment variables for production:</strong></p>
-              <pre>QB_ACCESS_TOKEN=${tokens.access_token}
-QB_REFRESH_TOKEN=${tokens.refresh_token}</pre>
-              <p>You can close this window.</p>
-            </body>
-          </html>
-        `);
+        res.send(successPage(result.realmId));
+        console.log(`Connected company ${result.realmId}`);
         server.close();
         resolve();
       } catch (err) {
-        reject(err);
+        const status = err instanceof OAuthError ? err.status : 500;
+        res.status(status).send(escapeHtml((err as Error).message));
+        // A forged or stale callback should not end the CLI session; keep waiting for the real one
+        if (!(err instanceof OAuthError) || status !== 400) {
+          server.close();
+          reject(err);
+        }
       }
     });
 
@@ -176,56 +484,201 @@ type QbOptions = {
   method?: "GET" | "POST";
   body?: any;
   headers?: Record<string, string>;
+  // "buffer" returns the raw response bytes (e.g. invoice PDFs) instead of parsed JSON
+  responseType?: "json" | "buffer";
+  // POSTs carry a requestid so QBO de-duplicates retries; false sends none and disables retries
+  idempotent?: boolean;
+  // The record as the caller last read it, for the audit log's before snapshot (saves a read)
+  before?: unknown;
 };
 
+const scheduler = new RequestScheduler({
+  maxConcurrent: QB_MAX_CONCURRENT,
+  requestsPerMinute: QB_RATE_LIMIT_PER_MINUTE,
+});
+
+// Throttling and transient server errors worth retrying
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
 /**
  * Core request helper. Appends minorversion correctly for both /resource and /query?query=... endpoints.
+ * Resolves base URL and tokens from the company selected for the current call.
+ * Requests are queued per realm under the concurrency/rate limits and retried with backoff on
+ * 429/5xx/network errors; POSTs are only retried when they carry a requestid.
  * Also auto-refreshes tokens once on 401.
  */
 async function qbRequest(endpoint: string, options: QbOptions = {}): Promise<any> {
-  if (!tokens?.access_token) throw new Error("Not authenticated. Run auth first.");
+  if (!options.method || options.method === "GET") return (await qbFetch(endpoint, options)).data;
+
+  // Dry runs stop here; confirmed runs only send what was previewed
+  const gated = writeContext.getStore()?.check({ method: options.method, endpoint, body: options.body });
+  if (gated) return gated.simulated;
+  if (!auditLog) return (await qbFetch(endpoint, options)).data;
+  return auditedWrite(auditLog, endpoint, options);
+}
 
-  const baseUrl = `${QB_BASE}/${REALM_ID}/${endpoint}`;
+const auditLog = AUDIT_LOG_FILE ? new AuditLog(AUDIT_LOG_FILE) : undefined;
+
+function appendAudit(log: AuditLog, records: AuditRecord[]) {
+  try {
+    log.append(records);
+  } catch (err) {
+    console.error(`[Audit] Could not write ${log.filePath}: ${(err as Error).message}`);
+  }
+}
+
+// Current records of a batch's update and delete items by bId, read with one query per entity
+async function batchItemsBefore(body: any): Promise<Map<string, unknown>> {
+  const byEntity = new Map<string, Array<{ bId: string; id: string }>>();
+  for (const req of body?.BatchItemRequest ?? []) {
+    if (req.operation !== "update" && req.operation !== "delete") continue;
+    const entity = Object.keys(req).find((key) => /^[A-Z]/.test(key));
+    const id = entity ? req[entity].Id : undefined;
+    if (!entity || id === undefined) continue;
+    byEntity.set(entity, [...(byEntity.get(entity) ?? []), { bId: String(req.bId), id: String(id) }]);
+  }
+
+  const before = new Map<string, unknown>();
+  for (const [entity, items] of byEntity) {
+    const rows = await qbSelect({
+      entity: entity as QueryEntity,
+      where: [{ field: "Id", op: "IN", value: [...new Set(items.map((i) => i.id))] }],
+      maxResults: MAX_BATCH_SIZE,
+    });
+    const byId = new Map(rows.map((r) => [String(r.Id), r]));
+    for (const item of items) if (byId.has(item.id)) before.set(item.bId, byId.get(item.id));
+  }
+  return before;
+}
+
+// Send a write and append the outcome, with the record(s) as they were before, to the audit log
+async function auditedWrite(log: AuditLog, endpoint: string, options: QbOptions): Promise<any> {
+  const { entity, id } = writeOperation({ endpoint, body: options.body });
+  let before = options.before;
+  let itemsBefore: Map<string, unknown> | undefined;
+  // Best effort: a failed read must not block the write. Updates pass the record they were built on.
+  if (entity === "batch") {
+    itemsBefore = await batchItemsBefore(options.body).catch(() => undefined);
+  } else if (id && before === undefined) {
+    const current = await qbFetch(`${entity}/${id}`).catch(() => undefined);
+    before = Object.values(current?.data ?? {}).find((v) => v && typeof v === "object");
+  }
+  const write = { endpoint, body: options.body, itemsBefore };
+
+  const call = toolContext.getStore();
+  const base = {
+    sessionId: call?.sessionId,
+    client: call?.client,
+    tool: call?.tool,
+    realmId: currentCompany().realmId,
+    method: options.method ?? "POST",
+    endpoint,
+    ...(before ? { before } : {}),
+  };
+
+  try {
+    const { data, intuitTid } = await qbFetch(endpoint, options);
+    appendAudit(log, auditRecords({ ...base, intuitTid }, write, data));
+    return data;
+  } catch (err) {
+    const intuitTid = err instanceof QuickBooksError ? err.intuitTid : undefined;
+    appendAudit(log, auditRecords({ ...base, intuitTid }, write, undefined, (err as Error).message));
+    throw err;
+  }
+}
+
+// Send one request (with token refresh, throttling and retries); returns the body and intuit_tid
+async function qbFetch(endpoint: string, options: QbOptions = {}): Promise<{ data: any; intuitTid?: string }> {
+  const company = currentCompany();
+  if (!company.tokens?.access_token) {
+    throw new QuickBooksError({
+      message: `Not authenticated for company ${company.realmId}. Run auth first.`,
+      category: "auth",
+    });
+  }
+
+  const method = options.method ?? "GET";
+  // One requestid per logical call, reused across retries so QBO applies the write at most once
+  const requestId = method === "POST" && options.idempotent !== false ? crypto.randomUUID() : undefined;
+
+  const baseUrl = `${QB_BASE_URLS[company.environment]}/${company.realmId}/${endpoint}`;
   const url =
-    baseUrl + (baseUrl.includes("?") ? `&minorversion=${MINOR_VERSION}` : `?minorversion=${MINOR_VERSION}`);
+    baseUrl +
+    (baseUrl.includes("?") ? `&minorversion=${MINOR_VERSION}` : `?minorversion=${MINOR_VERSION}`) +
+    (requestId ? `&requestid=${requestId}` : "");
+
+  // Refresh ahead of expiry rather than waiting for a 401
+  if (accessTokenExpiring(company)) await refreshTokens(company);
 
+  let usedToken = "";
+  let intuitTid: string | undefined;
   const doFetch = async () => {
     console.error(`[QB] Requesting: ${url}`);
-    const resp = await fetch(url, {
-      method: options.method ?? "GET",
-      headers: {
-        Authorization: `Bearer ${tokens!.access_token}`,
-        Accept: "application/json",
-        ...(options.body ? { "Content-Type": "application/json" } : {}),
-        ...(options.headers ?? {}),
-      },
-      body: options.body ? JSON.stringify(options.body) : undefined,
-    });
+    usedToken = company.tokens!.access_token;
+    let resp;
+    try {
+      resp = await fetch(url, {
+        method,
+        headers: {
+          Authorization: `Bearer ${usedToken}`,
+          Accept: "application/json",
+          ...(options.body ? { "Content-Type": "application/json" } : {}),
+          ...(options.headers ?? {}),
+        },
+        body: options.body ? JSON.stringify(options.body) : undefined,
+      });
+    } catch (err) {
+      throw new RetryableError(`QuickBooks network error: ${(err as Error).message}`);
+    }
+
+    intuitTid = resp.headers.get("intuit_tid") ?? undefined;
+    if (options.responseType === "buffer" && resp.ok) {
+      console.error(`[QB] Response status: ${resp.status} (binary)`);
+      return Buffer.from(await resp.arrayBuffer());
+    }
 
     const text = await resp.text();
-    console.error(`[QB] Response status: ${resp.status}`);
-    console.error(`[QB] Response body: ${text}`);
+    console.error(`[QB] Response status: ${resp.status}${intuitTid ? ` (intuit_tid ${intuitTid})` : ""}`);
 
     if (!resp.ok) {
       // 401 -> try refresh once
       if (resp.status === 401) {
         return { needRefresh: true, text };
       }
-      throw new Error(`QuickBooks API error: ${resp.status} - ${text}`);
+      throw parseQbFault(resp.status, text, {
+        intuitTid,
+        retryable: RETRYABLE_STATUSES.has(resp.status),
+        retryAfterMs: parseRetryAfter(resp.headers.get("retry-after")),
+      });
     }
 
     return JSON.parse(text || "{}");
   };
 
-  let result = await doFetch();
-  if (result?.needRefresh) {
-    await refreshTokens();
-    result = await doFetch();
+  const send = () => scheduler.schedule(company.realmId, doFetch);
+
+  const attempt = async () => {
+    let result = await send();
     if (result?.needRefresh) {
-      throw new Error("Unauthorized after token refresh.");
+      // Skip the refresh when a concurrent call already replaced the token we used
+      if (company.tokens?.access_token === usedToken) await refreshTokens(company);
+      result = await send();
+      if (result?.needRefresh) {
+        throw parseQbFault(401, result.text);
+      }
     }
-  }
-  return result;
+    return result;
+  };
+
+  const data = await withRetry(attempt, {
+    retries: QB_MAX_RETRIES,
+    baseDelayMs: 500,
+    maxDelayMs: 30_000,
+    canRetry: method === "GET" || !!requestId,
+    onRetry: (err, n, delay) =>
+      console.error(`[QB] ${err.message.slice(0, 120)} - retry ${n}/${QB_MAX_RETRIES} in ${Math.round(delay)}ms`),
+  });
+  return { data, intuitTid };
 }
 
 // Simple query helper
@@ -234,12 +687,359 @@ async function qbQuery(sql: string): Promise<any> {
   return qbRequest(`query?query=${q}`, { method: "GET" });
 }
 
+// Structured query helper: builds validated SQL and unwraps QueryResponse rows for the entity
+async function qbSelect(spec: QuerySpec): Promise<any[]> {
+  const data = await qbQuery(buildQuery(spec));
+  return data?.QueryResponse?.[spec.entity] ?? [];
+}
+
+// SELECT COUNT(*) for the same filters
+async function qbCount(spec: QuerySpec): Promise<number> {
+  const data = await qbQuery(buildCountQuery(spec));
+  return Number(data?.QueryResponse?.totalCount ?? 0);
+}
+
+// Run a report with Reports API query parameters (start_date, report_date, ...); empty values are skipped
+async function qbReport(reportName: string, params: Record<string, string | number | undefined>): Promise<any> {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== "") query.set(key, String(value));
+  }
+  const qs = query.toString();
+  return qbRequest(`reports/${reportName}${qs ? `?${qs}` : ""}`);
+}
+
+type PageOptions = {
+  cursor?: string;
+  includeTotal?: boolean;
+  fetchAll?: boolean;
+  rowLimit?: number;
+};
+
+type PageInfo = {
+  startPosition: number;
+  maxResults: number;
+  returned: number;
+  hasMore: boolean;
+  nextCursor?: string;
+  totalCount?: number;
+  // Set when fetchAll stopped at the row limit
+  truncated?: boolean;
+};
+
+/**
+ * Paged query helper. Resumes from a continuation cursor when given, optionally reports the total
+ * via COUNT(*), and in fetchAll mode walks STARTPOSITION in 1000-row pages up to the row limit.
+ */
+async function qbSelectPage(spec: QuerySpec, opts: PageOptions = {}): Promise<{ rows: any[]; page: PageInfo }> {
+  let startPosition = spec.startPosition ?? 1;
+  let maxResults = spec.maxResults ?? 100;
+  if (opts.cursor) ({ startPosition, maxResults } = decodeCursor(opts.cursor, spec));
+
+  const totalCount = opts.includeTotal ? await qbCount(spec) : undefined;
+
+  let rows: any[] = [];
+  let hasMore: boolean;
+  let truncated = false;
+
+  if (opts.fetchAll) {
+    const limit = Math.min(opts.rowLimit ?? FETCH_ALL_ROW_LIMIT, FETCH_ALL_ROW_LIMIT);
+    let position = startPosition;
+    for (;;) {
+      const pageSize = Math.min(MAX_PAGE_SIZE, limit - rows.length);
+      const batch = await qbSelect({ ...spec, startPosition: position, maxResults: pageSize });
+      rows.push(...batch);
+      position += batch.length;
+      if (batch.length < pageSize) {
+        hasMore = false;
+        break;
+      }
+      if (rows.length >= limit) {
+        hasMore = true;
+        truncated = true;
+        break;
+      }
+    }
+    // Continue from where the walk stopped, one full page at a time
+    maxResults = MAX_PAGE_SIZE;
+  } else {
+    rows = await qbSelect({ ...spec, startPosition, maxResults });
+    hasMore = rows.length === maxResults;
+  }
+
+  const nextStart = startPosition + rows.length;
+  if (totalCount !== undefined) hasMore = nextStart <= totalCount;
+
+  const page: PageInfo = {
+    startPosition,
+    maxResults,
+    returned: rows.length,
+    hasMore,
+    ...(hasMore ? { nextCursor: encodeCursor(spec, nextStart, maxResults) } : {}),
+    ...(totalCount !== undefined ? { totalCount } : {}),
+    ...(truncated ? { truncated } : {}),
+  };
+  return { rows, page };
+}
+
+// Run operations through the /batch endpoint, chunked into requests of MAX_BATCH_SIZE
+async function qbBatch(ops: BatchOperation[]): Promise<BatchItemResult[]> {
+  const gate = writeContext.getStore();
+  if (gate?.mode === "dryRun") {
+    // Preview every chunk, not just the first
+    await runBatch(ops, async (body) => {
+      gate.record({ method: "POST", endpoint: "batch", body });
+      return {};
+    });
+    throw new DryRunStop();
+  }
+  return runBatch(ops, (body) => qbRequest("batch", { method: "POST", body }));
+}
+
+function batchSummary(results: BatchItemResult[]) {
+  const succeeded = results.filter((r) => r.ok).length;
+  return { total: results.length, succeeded, failed: results.length - succeeded };
+}
+
+// --- Customer CSV import ---
+
+type ImportRow = {
+  // Spreadsheet row number (the header is row 1)
+  row: number;
+  action: "create" | "update" | "unchanged" | "skip" | "invalid" | "failed";
+  displayName?: string;
+  customerId?: string;
+  matchedBy?: "id" | "displayName" | "email";
+  changes?: string[];
+  errors?: string[];
+  // QBO-shaped body to send for create/update
+  body?: Record<string, any>;
+};
+
+type ImportOptions = {
+  mapping?: Record<string, string>;
+  matchBy: Array<"displayName" | "email">;
+  onMatch: "update" | "skip";
+};
+
+/**
+ * Validate every CSV row against customerCreateSchema and decide what to do with it: create, update
+ * the existing customer it matches (by an id column, then matchBy), or nothing. Two rows may not
+ * target the same customer or display name.
+ */
+function planCustomerImport(csv: string, opts: ImportOptions, existing: any[]) {
+  const [header, ...data] = parseCsv(csv);
+  if (!header || !data.length) throw new InvalidInputError("CSV needs a header row and at least one data row", "csv");
+  if (data.length > MAX_BULK_OPERATIONS) {
+    throw new InvalidInputError(`CSV has ${data.length} rows; import at most ${MAX_BULK_OPERATIONS} at a time`, "csv");
+  }
+  const { columns, ignored } = mapColumns(header, CUSTOMER_CSV_FIELDS, opts.mapping, ["id"]);
+  if (!columns.includes("displayName")) {
+    throw new InvalidInputError("No column maps to displayName; name it displayName or add it to mapping", "mapping");
+  }
+
+  const key = (v: unknown) => String(v ?? "").trim().toLowerCase();
+  const byId = new Map(existing.map((c) => [String(c.Id), c]));
+  const byName = new Map(existing.map((c) => [key(c.DisplayName), c]));
+  const byEmail = new Map<string, any[]>();
+  for (const c of existing) {
+    const email = key(c.PrimaryEmailAddr?.Address);
+    if (email) byEmail.set(email, [...(byEmail.get(email) ?? []), c]);
+  }
+
+  // Customer Id or new display name -> the row that claimed it first
+  const claimed = new Map<string, number>();
+
+  const rows = data.map((cells, i): ImportRow => {
+    const row = i + 2;
+    const { input, errors } = rowToInput(cells, columns, CUSTOMER_CSV_FIELDS);
+    if (cells.length > header.length) errors.push(`has ${cells.length} cells but the header has ${header.length}`);
+    const { id, ...fields } = input;
+    const parsed = customerCreateSchema.safeParse(fields);
+    if (!parsed.success) {
+      errors.push(...parsed.error.issues.map((issue) => `${issue.path.join(".") || "row"}: ${issue.message}`));
+    }
+    const displayName = fields.displayName as string | undefined;
+    if (errors.length || !parsed.success) return { row, action: "invalid", displayName, errors };
+
+    let match: any;
+    let matchedBy: ImportRow["matchedBy"];
+    if (id) {
+      match = byId.get(String(id));
+      matchedBy = "id";
+      if (!match) return { row, action: "invalid", displayName, errors: [`id: customer ${id} not found`] };
+    }
+    for (const by of opts.matchBy) {
+      if (match) break;
+      if (by === "displayName") match = byName.get(key(displayName));
+      else if (parsed.data.primaryEmail) {
+        const hits = byEmail.get(key(parsed.data.primaryEmail)) ?? [];
+        if (hits.length > 1) {
+          const ids = hits.map((c) => c.Id).join(", ");
+          return { row, action: "invalid", displayName, errors: [`primaryEmail matches several customers (${ids}); add an id column`] };
+        }
+        match = hits[0];
+      }
+      if (match) matchedBy = by;
+    }
+
+    // QBO display names are unique, including inactive customers
+    const named = byName.get(key(displayName));
+    if (named && named.Id !== match?.Id) {
+      return { row, action: "invalid", displayName, errors: [`displayName is already used by customer ${named.Id}`] };
+    }
+    const claim = match ? `id:${match.Id}` : `name:${key(displayName)}`;
+    if (claimed.has(claim)) {
+      return { row, action: "invalid", displayName, errors: [`targets the same customer as row ${claimed.get(claim)}`] };
+    }
+    claimed.set(claim, row);
+
+    const patch = JSON.parse(JSON.stringify(mapCustomerInputToQBO(parsed.data)));
+    if (!match) return { row, action: "create", displayName, body: patch };
+    if (opts.onMatch === "skip") return { row, action: "skip", displayName, customerId: match.Id, matchedBy };
+
+    // Addresses are sent whole, so keep the parts of the existing address the CSV leaves empty
+    for (const addr of ["BillAddr", "ShipAddr"]) {
+      if (patch[addr] && match[addr]) patch[addr] = { ...match[addr], ...patch[addr] };
+    }
+    const changes = fieldDiff(match, { sparse: true, ...patch }).map((c) => c.field);
+    if (!changes.length) return { row, action: "unchanged", displayName, customerId: match.Id, matchedBy };
+    return {
+      row,
+      action: "update",
+      displayName,
+      customerId: match.Id,
+      matchedBy,
+      changes,
+      body: { Id: match.Id, SyncToken: match.SyncToken, sparse: true, ...patch },
+    };
+  });
+
+  return { rows, ignoredColumns: ignored };
+}
+
+function importSummary(rows: ImportRow[]) {
+  const summary: Record<string, number> = { rows: rows.length };
+  for (const r of rows) summary[r.action] = (summary[r.action] ?? 0) + 1;
+  return summary;
+}
+
+// --- CDC cache ---
+
+// Entities kept in the local cache, e.g. QB_CDC_ENTITIES="Customer,Invoice,Item"
+const CDC_ENTITIES: QueryEntity[] = process.env.QB_CDC_ENTITIES
+  ? process.env.QB_CDC_ENTITIES.split(",")
+      .map((e) => e.trim())
+      .filter((e): e is QueryEntity => (QUERY_ENTITIES as string[]).includes(e))
+  : ["Customer", "Vendor", "Item", "Invoice", "Payment", "Bill"];
+
+const caches = new Map<string, EntityCache>();
+
+function cacheFor(company: CompanyConnection = currentCompany()): EntityCache {
+  let cache = caches.get(company.realmId);
+  if (!cache) {
+    cache = new EntityCache(cacheFilePath(QB_CACHE_DIR, company.realmId), company.realmId, CDC_ENTITIES);
+    caches.set(company.realmId, cache);
+  }
+  return cache;
+}
+
+// Every matching row of an entity, a full page at a time (seeds the cache, so no row limit)
+async function qbSelectAllRows(entity: QueryEntity, where: QueryFilter[] = []): Promise<any[]> {
+  const rows: any[] = [];
+  for (;;) {
+    const page = await qbSelect({
+      entity,
+      where,
+      orderBy: { field: "Id" },
+      startPosition: rows.length + 1,
+      maxResults: MAX_PAGE_SIZE,
+    });
+    rows.push(...page);
+    if (page.length < MAX_PAGE_SIZE) return rows;
+  }
+}
+
+const cdcSource: CdcSource = {
+  fetchChanges: (entities, changedSince) =>
+    qbRequest(`cdc?entities=${entities.join(",")}&changedSince=${encodeURIComponent(changedSince)}`),
+  fetchAll: (entity) => qbSelectAllRows(entity as QueryEntity),
+};
+
+// The current company's cache, synced first when older than maxAgeSeconds
+async function freshCache(entity: QueryEntity, maxAgeSeconds = CACHE_MAX_AGE_SECONDS): Promise<EntityCache> {
+  if (!CDC_ENTITIES.includes(entity)) {
+    throw new InvalidInputError(`${entity} is not cached; add it to QB_CDC_ENTITIES or use source "live".`, "source");
+  }
+  const cache = cacheFor();
+  if (cache.isStale(maxAgeSeconds)) await cache.sync(cdcSource);
+  return cache;
+}
+
+// Page cached rows like qbSelectPage pages a live query (same cursor format and page object)
+function cachedPage(all: any[], spec: QuerySpec, opts: PageOptions = {}): { rows: any[]; page: PageInfo } {
+  let startPosition = spec.startPosition ?? 1;
+  let maxResults = spec.maxResults ?? 100;
+  if (opts.cursor) ({ startPosition, maxResults } = decodeCursor(opts.cursor, spec));
+
+  const size = opts.fetchAll ? Math.min(opts.rowLimit ?? FETCH_ALL_ROW_LIMIT, FETCH_ALL_ROW_LIMIT) : maxResults;
+  const rows = all.slice(startPosition - 1, startPosition - 1 + size);
+  const nextStart = startPosition + rows.length;
+  const hasMore = nextStart <= all.length;
+  if (opts.fetchAll) maxResults = MAX_PAGE_SIZE;
+
+  const page: PageInfo = {
+    startPosition,
+    maxResults,
+    returned: rows.length,
+    hasMore,
+    ...(hasMore ? { nextCursor: encodeCursor(spec, nextStart, maxResults) } : {}),
+    totalCount: all.length,
+    ...(opts.fetchAll && hasMore ? { truncated: true } : {}),
+  };
+  return { rows, page };
+}
+
+// Keep every connected company's cache current in the background (QB_CDC_POLL_SECONDS)
+function startCdcPolling() {
+  if (!CDC_POLL_SECONDS) return;
+  const timer = setInterval(() => {
+    for (const company of companies.values()) {
+      if (!company.tokens?.access_token) continue;
+      companyContext
+        .run(company, () => cacheFor(company).sync(cdcSource))
+        .catch((err) => console.error(`[CDC] Sync failed for ${company.realmId}: ${err.message}`));
+    }
+  }, CDC_POLL_SECONDS * 1000);
+  timer.unref();
+}
+
 // Fetch latest entity to get SyncToken (needed for updates)
 async function getCustomerRaw(id: string): Promise<any> {
   const data = await qbRequest(`customer/${id}`, { method: "GET" });
   return data?.Customer;
 }
 
+// Sparse conflict-checked update of a customer's QBO fields
+function updateCustomerFields(customerId: string, patch: Record<string, any>, expectedSyncToken?: string) {
+  return updateWithConflictCheck({
+    entity: "customer",
+    fetchLatest: () => getCustomerRaw(customerId),
+    patch,
+    sparse: true,
+    expectedSyncToken,
+    write: async (body, current) => {
+      const data = await qbRequest("customer?operation=update", { method: "POST", body, before: current });
+      return data?.Customer ?? data;
+    },
+  });
+}
+
+// Activate or deactivate a customer (QBO has no hard delete for customers)
+function setCustomerActive(customerId: string, active: boolean, expectedSyncToken?: string) {
+  return updateCustomerFields(customerId, { Active: active }, expectedSyncToken);
+}
+
 // Map simplified input to QBO Customer shape
 function mapCustomerInputToQBO(input: any) {
   const qbo: any = {};
@@ -286,34 +1086,609 @@ function mapCustomerInputToQBO(input: any) {
   return qbo;
 }
 
-// --- Zod Schemas ---
+// QBO Customer back to the simplified input shape (the inverse of mapCustomerInputToQBO)
+function customerToInput(c: any) {
+  const addr = (a: any) =>
+    a && {
+      line1: a.Line1,
+      line2: a.Line2,
+      city: a.City,
+      countrySubDivisionCode: a.CountrySubDivisionCode,
+      postalCode: a.PostalCode,
+      country: a.Country,
+    };
+  return {
+    displayName: c.DisplayName,
+    title: c.Title,
+    givenName: c.GivenName,
+    middleName: c.MiddleName,
+    familyName: c.FamilyName,
+    suffix: c.Suffix,
+    companyName: c.CompanyName,
+    primaryEmail: c.PrimaryEmailAddr?.Address,
+    primaryPhone: c.PrimaryPhone?.FreeFormNumber,
+    mobilePhone: c.Mobile?.FreeFormNumber,
+    fax: c.Fax?.FreeFormNumber,
+    notes: c.Notes,
+    taxExempt: typeof c.Taxable === "boolean" ? !c.Taxable : undefined,
+    billAddr: addr(c.BillAddr),
+    shipAddr: addr(c.ShipAddr),
+  };
+}
 
-const paginationSchema = z.object({
-  startPosition: z.number().int().min(1).default(1).describe("Query start position (1-based)"),
-  maxResults: z.number().int().min(1).max(1000).default(50).describe("Max results (1-1000)"),
-});
+// Fetch latest invoice to get SyncToken (needed for update/void/delete)
+async function getInvoiceRaw(id: string): Promise<any> {
+  const data = await qbRequest(`invoice/${id}`, { method: "GET" });
+  return data?.Invoice;
+}
 
-// For create (DisplayName required)
-const customerCreateSchema = z.object({
-  displayName: z.string().min(1).describe("Customer DisplayName"),
-  title: z.string().optional(),
-  givenName: z.string().optional(),
-  middleName: z.string().optional(),
-  familyName: z.string().optional(),
-  suffix: z.string().optional(),
-  companyName: z.string().optional(),
-  primaryEmail: z.string().email().optional(),
-  primaryPhone: z.string().optional(),
-  mobilePhone: z.string().optional(),
-  fax: z.string().optional(),
-  notes: z.string().optional(),
-  taxExempt: z.boolean().optional(),
-  billAddr: z
-    .object({
-      line1: z.string().optional(),
-      line2: z.string().optional(),
-      city: z.string().optional(),
-      countrySubDivisionCode: z.string().optional(),
+// Map simplified input to QBO Invoice shape
+function mapInvoiceInputToQBO(input: any) {
+  const qbo: any = {};
+
+  if (input.customerId) qbo.CustomerRef = { value: input.customerId };
+  if (input.docNumber) qbo.DocNumber = input.docNumber;
+  if (input.txnDate) qbo.TxnDate = input.txnDate;
+  if (input.dueDate) qbo.DueDate = input.dueDate;
+  if (input.salesTermId) qbo.SalesTermRef = { value: input.salesTermId };
+  if (input.billEmail) qbo.BillEmail = { Address: input.billEmail };
+  if (input.customerMemo) qbo.CustomerMemo = { value: input.customerMemo };
+  if (input.privateNote) qbo.PrivateNote = input.privateNote;
+  if (typeof input.allowOnlineCreditCardPayment === "boolean") {
+    qbo.AllowOnlineCreditCardPayment = input.allowOnlineCreditCardPayment;
+  }
+  if (typeof input.allowOnlineACHPayment === "boolean") {
+    qbo.AllowOnlineACHPayment = input.allowOnlineACHPayment;
+  }
+
+  if (input.lines) {
+    qbo.Line = input.lines.map((l: any) => {
+      const qty = l.qty ?? 1;
+      // QBO requires Amount on every line; derive it from qty * unitPrice when omitted
+      const amount =
+        l.amount ?? (l.unitPrice !== undefined ? Math.round(qty * l.unitPrice * 100) / 100 : undefined);
+      return {
+        DetailType: "SalesItemLineDetail",
+        Amount: amount,
+        Description: l.description,
+        SalesItemLineDetail: {
+          ItemRef: { value: l.itemId },
+          Qty: l.qty,
+          UnitPrice: l.unitPrice,
+          ServiceDate: l.serviceDate,
+          TaxCodeRef: l.taxCodeId ? { value: l.taxCodeId } : undefined,
+        },
+      };
+    });
+  }
+
+  if (input.billAddr) {
+    const b = input.billAddr;
+    qbo.BillAddr = {
+      Line1: b.line1,
+      Line2: b.line2,
+      City: b.city,
+      CountrySubDivisionCode: b.countrySubDivisionCode,
+      PostalCode: b.postalCode,
+      Country: b.country,
+    };
+  }
+
+  if (input.shipAddr) {
+    const s = input.shipAddr;
+    qbo.ShipAddr = {
+      Line1: s.line1,
+      Line2: s.line2,
+      City: s.city,
+      CountrySubDivisionCode: s.countrySubDivisionCode,
+      PostalCode: s.postalCode,
+      Country: s.country,
+    };
+  }
+
+  return qbo;
+}
+
+// Fetch a customer's invoices that still carry an open balance, oldest first
+async function getOpenInvoices(customerId: string): Promise<any[]> {
+  const { rows: invoices } = await qbSelectPage(
+    {
+      entity: "Invoice",
+      where: [
+        { field: "CustomerRef", op: "=", value: customerId },
+        { field: "Balance", op: ">", value: 0 },
+      ],
+      orderBy: { field: "TxnDate", dir: "ASC" },
+    },
+    { fetchAll: true }
+  );
+  // Oldest-first by due date, falling back to invoice date
+  return invoices.sort((a, b) =>
+    String(a.DueDate ?? a.TxnDate).localeCompare(String(b.DueDate ?? b.TxnDate))
+  );
+}
+
+// Sales documents still open against a customer. Estimates carry no balance, so a pending one counts as open;
+// their status is checked after the fetch.
+const OPEN_TRANSACTION_QUERIES: { entity: QueryEntity; where?: QueryFilter; isOpen?: (txn: any) => boolean }[] = [
+  { entity: "Invoice", where: { field: "Balance", op: ">", value: 0 } },
+  { entity: "CreditMemo", where: { field: "Balance", op: ">", value: 0 } },
+  { entity: "SalesReceipt", where: { field: "Balance", op: ">", value: 0 } },
+  { entity: "Estimate", isOpen: (txn) => txn.TxnStatus === "Pending" },
+];
+
+// Fetch a customer's open invoices, credit memos, sales receipts and estimates, oldest first
+async function getOpenTransactions(customerId: string): Promise<any[]> {
+  const pages = await Promise.all(
+    OPEN_TRANSACTION_QUERIES.map(async ({ entity, where, isOpen }) => {
+      const { rows } = await qbSelectPage(
+        { entity, where: [{ field: "CustomerRef", op: "=", value: customerId }, ...(where ? [where] : [])] },
+        { fetchAll: true }
+      );
+      return rows.filter(isOpen ?? (() => true)).map((txn) => ({
+        Type: entity,
+        Id: txn.Id,
+        DocNumber: txn.DocNumber,
+        TxnDate: txn.TxnDate,
+        TotalAmt: txn.TotalAmt,
+        ...(txn.Balance !== undefined ? { Balance: txn.Balance } : {}),
+        ...(txn.TxnStatus !== undefined ? { TxnStatus: txn.TxnStatus } : {}),
+      }));
+    })
+  );
+  return pages.flat().sort((a, b) => String(a.TxnDate).localeCompare(String(b.TxnDate)));
+}
+
+type PaymentAllocation = { txnId: string; amount: number };
+
+/**
+ * Split a payment across open transactions (invoices or bills). Explicit allocations are validated
+ * against the open balances; otherwise the amount is applied oldest-first. Works in cents to avoid float drift.
+ */
+function allocatePayment(
+  openTxns: any[],
+  totalAmount: number,
+  allocations?: PaymentAllocation[],
+  txnLabel = "invoice"
+): { applied: PaymentAllocation[]; unapplied: number } {
+  const toCents = (n: number) => Math.round(n * 100);
+  let remaining = toCents(totalAmount);
+  const applied: PaymentAllocation[] = [];
+
+  if (allocations?.length) {
+    const byId = new Map(openTxns.map((txn) => [String(txn.Id), txn]));
+    const seen = new Set<string>();
+    for (const a of allocations) {
+      const txn = byId.get(a.txnId);
+      if (!txn) {
+        throw new InvalidInputError(`${a.txnId} is not an open ${txnLabel} for this party.`);
+      }
+      // One allocation per transaction, so each is checked against the whole open balance
+      if (seen.has(a.txnId)) {
+        throw new InvalidInputError(`${txnLabel} ${a.txnId} appears more than once in allocations; combine them.`);
+      }
+      seen.add(a.txnId);
+      const cents = toCents(a.amount);
+      if (cents > toCents(Number(txn.Balance))) {
+        throw new InvalidInputError(`Allocation ${a.amount} exceeds open balance ${txn.Balance} on ${txnLabel} ${a.txnId}.`);
+      }
+      if (cents > remaining) {
+        throw new InvalidInputError(`Allocations exceed the payment amount ${totalAmount}.`);
+      }
+      remaining -= cents;
+      applied.push({ txnId: a.txnId, amount: cents / 100 });
+    }
+  } else {
+    for (const txn of openTxns) {
+      if (remaining <= 0) break;
+      const cents = Math.min(remaining, toCents(Number(txn.Balance)));
+      if (cents <= 0) continue;
+      remaining -= cents;
+      applied.push({ txnId: String(txn.Id), amount: cents / 100 });
+    }
+  }
+
+  return { applied, unapplied: remaining / 100 };
+}
+
+// Fetch latest vendor to get SyncToken (needed for updates)
+async function getVendorRaw(id: string): Promise<any> {
+  const data = await qbRequest(`vendor/${id}`, { method: "GET" });
+  return data?.Vendor;
+}
+
+// Map simplified input to QBO Vendor shape
+function mapVendorInputToQBO(input: any) {
+  const qbo: any = {};
+
+  if (input.displayName) qbo.DisplayName = input.displayName;
+  if (input.companyName) qbo.CompanyName = input.companyName;
+  if (input.title) qbo.Title = input.title;
+  if (input.givenName) qbo.GivenName = input.givenName;
+  if (input.middleName) qbo.MiddleName = input.middleName;
+  if (input.familyName) qbo.FamilyName = input.familyName;
+  if (input.suffix) qbo.Suffix = input.suffix;
+  if (input.printOnCheckName) qbo.PrintOnCheckName = input.printOnCheckName;
+  if (input.acctNum) qbo.AcctNum = input.acctNum;
+  if (input.taxIdentifier) qbo.TaxIdentifier = input.taxIdentifier;
+  if (typeof input.vendor1099 === "boolean") qbo.Vendor1099 = input.vendor1099;
+  if (input.termId) qbo.TermRef = { value: input.termId };
+  if (input.webAddr) qbo.WebAddr = { URI: input.webAddr };
+
+  if (input.primaryEmail) qbo.PrimaryEmailAddr = { Address: input.primaryEmail };
+  if (input.primaryPhone) qbo.PrimaryPhone = { FreeFormNumber: input.primaryPhone };
+  if (input.mobilePhone) qbo.Mobile = { FreeFormNumber: input.mobilePhone };
+  if (input.fax) qbo.Fax = { FreeFormNumber: input.fax };
+
+  if (input.billAddr) {
+    const b = input.billAddr;
+    qbo.BillAddr = {
+      Line1: b.line1,
+      Line2: b.line2,
+      City: b.city,
+      CountrySubDivisionCode: b.countrySubDivisionCode,
+      PostalCode: b.postalCode,
+      Country: b.country,
+    };
+  }
+
+  return qbo;
+}
+
+// Map simplified input to QBO Bill shape (expense lines hit an account, item lines hit an item)
+function mapBillInputToQBO(input: any) {
+  const qbo: any = {};
+
+  if (input.vendorId) qbo.VendorRef = { value: input.vendorId };
+  if (input.docNumber) qbo.DocNumber = input.docNumber;
+  if (input.txnDate) qbo.TxnDate = input.txnDate;
+  if (input.dueDate) qbo.DueDate = input.dueDate;
+  if (input.apAccountId) qbo.APAccountRef = { value: input.apAccountId };
+  if (input.salesTermId) qbo.SalesTermRef = { value: input.salesTermId };
+  if (input.privateNote) qbo.PrivateNote = input.privateNote;
+
+  if (input.lines) {
+    qbo.Line = input.lines.map((l: any) => {
+      const customerRef = l.customerId ? { value: l.customerId } : undefined;
+      if (l.itemId) {
+        const qty = l.qty ?? 1;
+        const amount =
+          l.amount ?? (l.unitPrice !== undefined ? Math.round(qty * l.unitPrice * 100) / 100 : undefined);
+        return {
+          DetailType: "ItemBasedExpenseLineDetail",
+          Amount: amount,
+          Description: l.description,
+          ItemBasedExpenseLineDetail: {
+            ItemRef: { value: l.itemId },
+            Qty: l.qty,
+            UnitPrice: l.unitPrice,
+            CustomerRef: customerRef,
+            BillableStatus: l.billable ? "Billable" : undefined,
+          },
+        };
+      }
+      return {
+        DetailType: "AccountBasedExpenseLineDetail",
+        Amount: l.amount,
+        Description: l.description,
+        AccountBasedExpenseLineDetail: {
+          AccountRef: { value: l.accountId },
+          CustomerRef: customerRef,
+          BillableStatus: l.billable ? "Billable" : undefined,
+        },
+      };
+    });
+  }
+
+  return qbo;
+}
+
+// Fetch a vendor's bills that still carry an open balance, oldest first
+async function getOpenBills(vendorId: string): Promise<any[]> {
+  const { rows: bills } = await qbSelectPage(
+    {
+      entity: "Bill",
+      where: [
+        { field: "VendorRef", op: "=", value: vendorId },
+        { field: "Balance", op: ">", value: 0 },
+      ],
+      orderBy: { field: "TxnDate", dir: "ASC" },
+    },
+    { fetchAll: true }
+  );
+  return bills.sort((a, b) =>
+    String(a.DueDate ?? a.TxnDate).localeCompare(String(b.DueDate ?? b.TxnDate))
+  );
+}
+
+// Look up a customer or vendor by Id, falling back to an exact DisplayName match
+async function findByIdOrName(
+  entity: "Customer" | "Vendor",
+  selector: string,
+  getRaw: (id: string) => Promise<any>
+): Promise<any> {
+  const value = selector.trim();
+  if (/^\d+$/.test(value)) {
+    const record = await getRaw(value).catch(() => undefined);
+    if (record) return record;
+  }
+  const [match] = await qbSelect({
+    entity,
+    where: [{ field: "DisplayName", op: "=", value }],
+    maxResults: 1,
+  });
+  if (!match) {
+    throw new QuickBooksError({ message: `No ${entity.toLowerCase()} with Id or DisplayName "${value}"`, category: "not_found" });
+  }
+  return match;
+}
+
+// Fetch latest item to get SyncToken (needed for updates)
+async function getItemRaw(id: string): Promise<any> {
+  const data = await qbRequest(`item/${id}`, { method: "GET" });
+  return data?.Item;
+}
+
+// Map simplified input to QBO Item shape
+function mapItemInputToQBO(input: any) {
+  const qbo: any = {};
+
+  if (input.name) qbo.Name = input.name;
+  if (input.type) qbo.Type = input.type;
+  if (input.sku) qbo.Sku = input.sku;
+  if (input.description) qbo.Description = input.description;
+  if (input.purchaseDescription) qbo.PurchaseDesc = input.purchaseDescription;
+  if (typeof input.unitPrice === "number") qbo.UnitPrice = input.unitPrice;
+  if (typeof input.purchaseCost === "number") qbo.PurchaseCost = input.purchaseCost;
+  if (typeof input.taxable === "boolean") qbo.Taxable = input.taxable;
+  if (input.incomeAccountId) qbo.IncomeAccountRef = { value: input.incomeAccountId };
+  if (input.expenseAccountId) qbo.ExpenseAccountRef = { value: input.expenseAccountId };
+  if (input.assetAccountId) qbo.AssetAccountRef = { value: input.assetAccountId };
+  if (input.parentId) {
+    qbo.SubItem = true;
+    qbo.ParentRef = { value: input.parentId };
+  }
+
+  // Inventory tracking fields
+  if (input.type === "Inventory") qbo.TrackQtyOnHand = true;
+  if (typeof input.qtyOnHand === "number") qbo.QtyOnHand = input.qtyOnHand;
+  if (input.invStartDate) qbo.InvStartDate = input.invStartDate;
+  if (typeof input.reorderPoint === "number") qbo.ReorderPoint = input.reorderPoint;
+
+  return qbo;
+}
+
+// Tool result for a conflict-checked update, noting any concurrent edit that was kept
+function updateResult(outcome: UpdateOutcome) {
+  const content = [{ type: "text" as const, text: JSON.stringify(outcome.updated, null, 2) }];
+  if (outcome.mergedFields?.length) {
+    content.push({
+      type: "text",
+      text: `Merged with a concurrent edit to: ${outcome.mergedFields.join(", ")}`,
+    });
+  }
+  return { content };
+}
+
+// --- Webhook events ---
+
+const eventLog = new EventLog(WEBHOOK_EVENTS_FILE);
+
+// MCP servers with a live session (stdio, or one per HTTP session or SSE connection) and the
+// resource URIs each session subscribed to
+const liveServers = new Map<McpServer, Set<string>>();
+
+// Resource URI for a QuickBooks record, e.g. qb://1234567890/invoice/42
+function entityUri(realmId: string, entity: string, id: string): string {
+  if (entity === "CompanyInfo") return `qb://${realmId}/company-info`;
+  return `qb://${realmId}/${entity.toLowerCase()}/${id}`;
+}
+
+const EVENTS_URI = "qb://events";
+
+// Subscriptions are matched against entityUri's realmId form; a URI naming the company by alias is
+// rewritten to it. Unknown companies are left as they are.
+function canonicalResourceUri(uri: string): string {
+  const match = /^qb:\/\/([^/]+)(\/.*)$/.exec(uri);
+  if (!match) return uri;
+  try {
+    return `qb://${resolveCompanySelector(decodeURIComponent(match[1])).realmId}${match[2]}`;
+  } catch {
+    return uri;
+  }
+}
+
+// A company connected or disconnected: its records joined or left resources/list
+function notifyResourceListChanged() {
+  for (const server of liveServers.keys()) server.sendResourceListChanged();
+}
+
+// New webhook events: cached copies are out of date, and subscribed sessions hear about the records
+eventLog.subscribe((events) => {
+  for (const realmId of new Set(events.map((e) => e.realmId))) caches.get(realmId)?.invalidate();
+
+  const uris = [EVENTS_URI, ...new Set(events.map((e) => entityUri(e.realmId, e.entity, e.entityId)))];
+  for (const [server, subscriptions] of liveServers) {
+    for (const uri of uris.filter((u) => subscriptions.has(u))) {
+      server.server
+        .sendResourceUpdated({ uri })
+        .catch((err) => console.error(`[Webhook] Notification failed: ${err.message}`));
+    }
+  }
+});
+
+// --- MCP resources ---
+
+// Records exposed as qb://{realmId}/{kind}/{id}; title is the field shown as the resource name
+const RESOURCE_KINDS = [
+  { kind: "customer", entity: "Customer", title: "DisplayName", get: getCustomerRaw },
+  { kind: "invoice", entity: "Invoice", title: "DocNumber", get: getInvoiceRaw },
+  { kind: "vendor", entity: "Vendor", title: "DisplayName", get: getVendorRaw },
+  { kind: "item", entity: "Item", title: "Name", get: getItemRaw },
+] as const;
+
+const RESOURCE_PAGE_SIZE = 100;
+
+// Position in the listing: company index, kind index (-1 = company-info) and query start position
+type ResourceCursor = { r: number; k: number; s: number };
+
+function decodeResourceCursor(cursor: string): ResourceCursor {
+  try {
+    const pos = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if ([pos.r, pos.k, pos.s].every(Number.isInteger)) return pos;
+  } catch {
+    // fall through
+  }
+  throw new InvalidInputError("Malformed resource list cursor");
+}
+
+/**
+ * One page of resources/list: the events feed, then for each connected company its company-info
+ * and its customers, invoices, vendors and items in Id order.
+ */
+async function listResourcesPage(cursor?: string): Promise<{ resources: Resource[]; nextCursor?: string }> {
+  let pos: ResourceCursor = cursor ? decodeResourceCursor(cursor) : { r: 0, k: -1, s: 1 };
+  const realms = [...companies.values()]
+    .filter((c) => !!c.tokens?.access_token)
+    .sort((a, b) => a.realmId.localeCompare(b.realmId));
+
+  const resources: Resource[] = [];
+  if (!cursor) {
+    resources.push({ uri: EVENTS_URI, name: "recent_events", mimeType: "application/json" });
+  }
+
+  while (pos.r < realms.length && resources.length < RESOURCE_PAGE_SIZE) {
+    const company = realms[pos.r];
+    const label = company.alias ?? company.realmId;
+
+    if (pos.k === -1) {
+      resources.push({
+        uri: entityUri(company.realmId, "CompanyInfo", ""),
+        name: `${label}: company info`,
+        mimeType: "application/json",
+      });
+      pos = { r: pos.r, k: 0, s: 1 };
+      continue;
+    }
+
+    const kind = RESOURCE_KINDS[pos.k];
+    const want = RESOURCE_PAGE_SIZE - resources.length;
+    const spec: QuerySpec = {
+      entity: kind.entity,
+      select: [kind.title],
+      orderBy: { field: "Id" },
+      startPosition: pos.s,
+      maxResults: want,
+    };
+    const rows = await companyContext.run(company, () => qbSelect(spec));
+    for (const row of rows) {
+      resources.push({
+        uri: entityUri(company.realmId, kind.entity, row.Id),
+        name: `${label}: ${kind.entity} ${row[kind.title] ?? row.Id}`,
+        mimeType: "application/json",
+      });
+    }
+
+    if (rows.length < want) {
+      pos = pos.k + 1 < RESOURCE_KINDS.length ? { r: pos.r, k: pos.k + 1, s: 1 } : { r: pos.r + 1, k: -1, s: 1 };
+    } else {
+      pos = { ...pos, s: pos.s + rows.length };
+    }
+  }
+
+  return {
+    resources,
+    ...(pos.r < realms.length ? { nextCursor: Buffer.from(JSON.stringify(pos)).toString("base64url") } : {}),
+  };
+}
+
+// Completion for the {realmId} template variable: connected realmIds and aliases
+function completeRealm(value: string): string[] {
+  const options = [...companies.values()].flatMap((c) => (c.alias ? [c.realmId, c.alias] : [c.realmId]));
+  return options.filter((o) => o.startsWith(value));
+}
+
+function jsonResource(uri: URL, data: unknown) {
+  return { contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(data, null, 2) }] };
+}
+
+// --- Zod Schemas ---
+
+const paginationSchema = z.object({
+  startPosition: z.number().int().min(1).default(1).describe("Query start position (1-based)"),
+  maxResults: z.number().int().min(1).max(1000).default(50).describe("Max results (1-1000)"),
+  cursor: z
+    .string()
+    .optional()
+    .describe("nextCursor from a previous page of the same query; overrides startPosition/maxResults"),
+  includeTotal: z.boolean().default(false).describe("Also return totalCount of all matching rows (extra COUNT query)"),
+  fetchAll: z
+    .boolean()
+    .default(false)
+    .describe(`Walk every page and return all matching rows, up to ${FETCH_ALL_ROW_LIMIT}`),
+  rowLimit: z.number().int().min(1).optional().describe("Stop fetchAll after this many rows"),
+});
+
+// Output shaping for list and search tools (see output.ts)
+const outputSchema = z.object({
+  fields: z
+    .array(z.string())
+    .optional()
+    .describe("Only return these fields, as dotted paths such as PrimaryEmailAddr.Address (Id is always included)"),
+  summary: z.boolean().default(false).describe("Only return each record's key fields"),
+  format: z
+    .enum(OUTPUT_FORMATS)
+    .default("json")
+    .describe("json, compact (minified, without MetaData and empty fields), markdown table or csv"),
+});
+
+// Read from the local CDC cache instead of QuickBooks (see cdc.ts)
+const cacheParams = {
+  source: z
+    .enum(["live", "cache"])
+    .default("live")
+    .describe("cache answers from the local synced copy (text filters match anywhere, case-insensitive) and reports its freshness"),
+  maxAgeSeconds: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe(`With source=cache, sync first if the cache is older than this (default ${CACHE_MAX_AGE_SECONDS})`),
+};
+
+// Optional concurrency guard shared by the update tools (see conflicts.ts)
+const conflictParams = {
+  expectedSyncToken: z
+    .string()
+    .optional()
+    .describe("SyncToken from when you last read the record; changes made since to the same fields are reported as conflicts"),
+  snapshot: z
+    .record(z.any())
+    .optional()
+    .describe("The record as you last read it (QuickBooks JSON); lets concurrent edits to other fields merge automatically"),
+};
+
+// For create (DisplayName required)
+const customerCreateSchema = z.object({
+  displayName: z.string().min(1).describe("Customer DisplayName"),
+  title: z.string().optional(),
+  givenName: z.string().optional(),
+  middleName: z.string().optional(),
+  familyName: z.string().optional(),
+  suffix: z.string().optional(),
+  companyName: z.string().optional(),
+  primaryEmail: z.string().email().optional(),
+  primaryPhone: z.string().optional(),
+  mobilePhone: z.string().optional(),
+  fax: z.string().optional(),
+  notes: z.string().optional(),
+  taxExempt: z.boolean().optional(),
+  billAddr: z
+    .object({
+      line1: z.string().optional(),
+      line2: z.string().optional(),
+      city: z.string().optional(),
+      countrySubDivisionCode: z.string().optional(),
       postalCode: z.string().optional(),
       country: z.string().optional(),
     })
@@ -330,6 +1705,9 @@ const customerCreateSchema = z.object({
     .optional(),
 });
 
+// CSV columns for customers: customerCreateSchema fields, addresses flattened to billAddr.line1 etc.
+const CUSTOMER_CSV_FIELDS = csvFields(customerCreateSchema);
+
 // For update (all fields optional except customerId, sparse)
 const customerUpdateParams = {
   customerId: z.string().min(1).describe("Customer Id for update"),
@@ -367,11 +1745,11 @@ const customerUpdateParams = {
       country: z.string().optional(),
     })
     .optional(),
+  ...conflictParams,
 };
 
 const searchSchema = z.object({
-  startPosition: paginationSchema.shape.startPosition,
-  maxResults: paginationSchema.shape.maxResults,
+  ...paginationSchema.shape,
   displayName: z.string().optional(),
   companyName: z.string().optional(),
   givenName: z.string().optional(),
@@ -381,326 +1759,2334 @@ const searchSchema = z.object({
   activeOnly: z.boolean().default(true),
   orderBy: z.enum(["Id", "DisplayName", "Metadata.LastUpdatedTime"]).default("Metadata.LastUpdatedTime"),
   sort: z.enum(["ASC", "DESC"]).default("DESC"),
+  ...cacheParams,
+  ...outputSchema.shape,
+});
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+
+const invoiceLineSchema = z.object({
+  itemId: z.string().min(1).describe("Item (product/service) Id"),
+  description: z.string().optional(),
+  qty: z.number().positive().optional(),
+  unitPrice: z.number().optional(),
+  amount: z.number().optional().describe("Line amount; defaults to qty * unitPrice"),
+  serviceDate: dateSchema.optional(),
+  taxCodeId: z.string().optional(),
+});
+
+const addressSchema = z
+  .object({
+    line1: z.string().optional(),
+    line2: z.string().optional(),
+    city: z.string().optional(),
+    countrySubDivisionCode: z.string().optional(),
+    postalCode: z.string().optional(),
+    country: z.string().optional(),
+  })
+  .optional();
+
+// For create (CustomerRef and at least one line required)
+const invoiceCreateSchema = z.object({
+  customerId: z.string().min(1).describe("Customer Id the invoice is billed to"),
+  lines: z.array(invoiceLineSchema).min(1).describe("Invoice line items"),
+  docNumber: z.string().optional().describe("Invoice number (auto-assigned if omitted)"),
+  txnDate: dateSchema.optional().describe("Invoice date (YYYY-MM-DD)"),
+  dueDate: dateSchema.optional().describe("Due date (YYYY-MM-DD)"),
+  salesTermId: z.string().optional(),
+  billEmail: z.string().email().optional(),
+  customerMemo: z.string().optional().describe("Message displayed on the invoice"),
+  privateNote: z.string().optional().describe("Internal note, not shown to the customer"),
+  allowOnlineCreditCardPayment: z.boolean().optional(),
+  allowOnlineACHPayment: z.boolean().optional(),
+  billAddr: addressSchema,
+  shipAddr: addressSchema,
+});
+
+// For update (all fields optional except invoiceId, sparse)
+const invoiceUpdateParams = {
+  invoiceId: z.string().min(1).describe("Invoice Id for update"),
+  sparse: z.boolean().default(true).describe("Perform sparse update (recommended)"),
+  customerId: z.string().optional(),
+  lines: z
+    .array(invoiceLineSchema)
+    .min(1)
+    .optional()
+    .describe("Replaces ALL existing lines when provided"),
+  docNumber: z.string().optional(),
+  txnDate: dateSchema.optional(),
+  dueDate: dateSchema.optional(),
+  salesTermId: z.string().optional(),
+  billEmail: z.string().email().optional(),
+  customerMemo: z.string().optional(),
+  privateNote: z.string().optional(),
+  allowOnlineCreditCardPayment: z.boolean().optional(),
+  allowOnlineACHPayment: z.boolean().optional(),
+  billAddr: addressSchema,
+  shipAddr: addressSchema,
+  ...conflictParams,
+};
+
+const invoiceSearchSchema = z.object({
+  ...paginationSchema.shape,
+  customerId: z.string().optional(),
+  docNumber: z.string().optional(),
+  txnDateFrom: dateSchema.optional().describe("Invoice date on or after (YYYY-MM-DD)"),
+  txnDateTo: dateSchema.optional().describe("Invoice date on or before (YYYY-MM-DD)"),
+  dueDateFrom: dateSchema.optional().describe("Due date on or after (YYYY-MM-DD)"),
+  dueDateTo: dateSchema.optional().describe("Due date on or before (YYYY-MM-DD)"),
+  openOnly: z.boolean().default(false).describe("Only invoices with Balance > 0"),
+  minBalance: z.number().optional().describe("Only invoices with Balance >= this amount"),
+  orderBy: z.enum(["Id", "TxnDate", "DueDate", "DocNumber", "Metadata.LastUpdatedTime"]).default("TxnDate"),
+  sort: z.enum(["ASC", "DESC"]).default("DESC"),
+});
+
+const paymentCreateSchema = z.object({
+  customerId: z.string().min(1).describe("Customer Id the payment is received from"),
+  totalAmount: z.number().positive().describe("Total amount received"),
+  allocations: z
+    .array(
+      z.object({
+        invoiceId: z.string().min(1),
+        amount: z.number().positive(),
+      })
+    )
+    .optional()
+    .describe("Explicit invoice allocations; when omitted the amount is applied oldest-first"),
+  autoApply: z
+    .boolean()
+    .default(true)
+    .describe("Apply to open invoices oldest-first when no allocations are given; false leaves it unapplied"),
+  txnDate: dateSchema.optional().describe("Payment date (YYYY-MM-DD)"),
+  paymentRefNum: z.string().optional().describe("Check number or reference"),
+  paymentMethodId: z.string().optional(),
+  depositToAccountId: z.string().optional().describe("Account Id to deposit into (defaults to Undeposited Funds)"),
+  privateNote: z.string().optional(),
+});
+
+// For vendor create (DisplayName required)
+const vendorCreateSchema = z.object({
+  displayName: z.string().min(1).describe("Vendor DisplayName"),
+  title: z.string().optional(),
+  givenName: z.string().optional(),
+  middleName: z.string().optional(),
+  familyName: z.string().optional(),
+  suffix: z.string().optional(),
+  companyName: z.string().optional(),
+  printOnCheckName: z.string().optional(),
+  primaryEmail: z.string().email().optional(),
+  primaryPhone: z.string().optional(),
+  mobilePhone: z.string().optional(),
+  fax: z.string().optional(),
+  webAddr: z.string().optional(),
+  acctNum: z.string().optional().describe("Our account number with this vendor"),
+  taxIdentifier: z.string().optional(),
+  vendor1099: z.boolean().optional().describe("Track payments for 1099"),
+  termId: z.string().optional(),
+  billAddr: addressSchema,
+});
+
+// For vendor update (all fields optional except vendorId, sparse)
+const vendorUpdateParams = {
+  vendorId: z.string().min(1).describe("Vendor Id for update"),
+  sparse: z.boolean().default(true).describe("Perform sparse update (recommended)"),
+  ...vendorCreateSchema.partial().shape,
+  ...conflictParams,
+};
+
+const vendorSearchSchema = z.object({
+  ...paginationSchema.shape,
+  displayName: z.string().optional(),
+  companyName: z.string().optional(),
+  email: z.string().optional(),
+  phone: z.string().optional(),
+  activeOnly: z.boolean().default(true),
+  orderBy: z.enum(["Id", "DisplayName", "Metadata.LastUpdatedTime"]).default("Metadata.LastUpdatedTime"),
+  sort: z.enum(["ASC", "DESC"]).default("DESC"),
 });
 
-// --- MCP Server Setup ---
+const billLineSchema = z
+  .object({
+    amount: z.number().optional().describe("Line amount (required for expense lines)"),
+    description: z.string().optional(),
+    accountId: z.string().optional().describe("Expense account Id (account-based line)"),
+    itemId: z.string().optional().describe("Item Id (item-based line)"),
+    qty: z.number().positive().optional(),
+    unitPrice: z.number().optional(),
+    customerId: z.string().optional().describe("Customer to assign the expense to"),
+    billable: z.boolean().optional(),
+  })
+  .refine((l) => !!l.accountId !== !!l.itemId, {
+    message: "Each bill line needs exactly one of accountId or itemId",
+  })
+  .refine((l) => !!l.itemId || l.amount !== undefined, {
+    message: "Expense (account-based) lines require amount",
+  });
+
+const billCreateSchema = z.object({
+  vendorId: z.string().min(1).describe("Vendor Id the bill is from"),
+  lines: z.array(billLineSchema).min(1).describe("Bill lines against expense accounts or items"),
+  docNumber: z.string().optional().describe("Vendor's bill/reference number"),
+  txnDate: dateSchema.optional().describe("Bill date (YYYY-MM-DD)"),
+  dueDate: dateSchema.optional().describe("Due date (YYYY-MM-DD)"),
+  apAccountId: z.string().optional().describe("Accounts payable account Id"),
+  salesTermId: z.string().optional(),
+  privateNote: z.string().optional(),
+});
+
+const billSearchSchema = z.object({
+  ...paginationSchema.shape,
+  vendorId: z.string().optional(),
+  docNumber: z.string().optional(),
+  txnDateFrom: dateSchema.optional().describe("Bill date on or after (YYYY-MM-DD)"),
+  txnDateTo: dateSchema.optional().describe("Bill date on or before (YYYY-MM-DD)"),
+  dueDateFrom: dateSchema.optional().describe("Due date on or after (YYYY-MM-DD)"),
+  dueDateTo: dateSchema.optional().describe("Due date on or before (YYYY-MM-DD)"),
+  openOnly: z.boolean().default(false).describe("Only bills with Balance > 0"),
+  orderBy: z.enum(["Id", "TxnDate", "DueDate", "Metadata.LastUpdatedTime"]).default("TxnDate"),
+  sort: z.enum(["ASC", "DESC"]).default("DESC"),
+});
+
+const billPaymentCreateSchema = z.object({
+  vendorId: z.string().min(1).describe("Vendor Id being paid"),
+  totalAmount: z.number().positive().describe("Total amount paid"),
+  payType: z.enum(["Check", "CreditCard"]).describe("Pay by check (bank account) or credit card"),
+  bankAccountId: z.string().optional().describe("Bank account Id (required for Check)"),
+  creditCardAccountId: z.string().optional().describe("Credit card account Id (required for CreditCard)"),
+  allocations: z
+    .array(
+      z.object({
+        billId: z.string().min(1),
+        amount: z.number().positive(),
+      })
+    )
+    .optional()
+    .describe("Explicit bill allocations; when omitted the amount is applied oldest-first"),
+  txnDate: dateSchema.optional().describe("Payment date (YYYY-MM-DD)"),
+  docNumber: z.string().optional().describe("Check number"),
+  printLater: z.boolean().optional().describe("Queue the check for printing (Check only)"),
+  privateNote: z.string().optional(),
+});
+
+// For item create (Name and Type required; inventory needs extra accounts checked in the handler)
+const itemCreateSchema = z.object({
+  name: z.string().min(1).max(100).describe("Item Name (unique)"),
+  type: z.enum(["Service", "NonInventory", "Inventory"]).describe("Item type"),
+  sku: z.string().optional(),
+  description: z.string().optional().describe("Sales description"),
+  purchaseDescription: z.string().optional(),
+  unitPrice: z.number().min(0).optional().describe("Sales price"),
+  purchaseCost: z.number().min(0).optional(),
+  taxable: z.boolean().optional(),
+  incomeAccountId: z.string().optional().describe("Income account Id (required for sales items)"),
+  expenseAccountId: z.string().optional().describe("Expense / COGS account Id"),
+  assetAccountId: z.string().optional().describe("Inventory asset account Id (Inventory only)"),
+  parentId: z.string().optional().describe("Parent item/category Id for sub-items"),
+  qtyOnHand: z.number().optional().describe("Starting quantity on hand (Inventory only)"),
+  invStartDate: dateSchema.optional().describe("Inventory start date (Inventory only, YYYY-MM-DD)"),
+  reorderPoint: z.number().min(0).optional().describe("Reorder point (Inventory only)"),
+});
+
+// For item update (all fields optional except itemId, sparse; Type cannot change after creation)
+const itemUpdateParams = {
+  itemId: z.string().min(1).describe("Item Id for update"),
+  sparse: z.boolean().default(true).describe("Perform sparse update (recommended)"),
+  ...itemCreateSchema.omit({ type: true, invStartDate: true }).partial().shape,
+  ...conflictParams,
+};
+
+const itemSearchSchema = z.object({
+  ...paginationSchema.shape,
+  name: z.string().optional().describe("Name prefix"),
+  sku: z.string().optional(),
+  type: z.enum(["Service", "NonInventory", "Inventory"]).optional(),
+  activeOnly: z.boolean().default(true),
+  orderBy: z.enum(["Id", "Name", "Metadata.LastUpdatedTime"]).default("Name"),
+  sort: z.enum(["ASC", "DESC"]).default("ASC"),
+});
+
+const reportSchema = z.object({
+  reportName: z.enum(REPORT_NAMES).describe("QuickBooks report to run"),
+  startDate: dateSchema.optional().describe("Period start (YYYY-MM-DD)"),
+  endDate: dateSchema.optional().describe("Period end (YYYY-MM-DD)"),
+  dateMacro: z
+    .enum([
+      "Today",
+      "Yesterday",
+      "This Week",
+      "Last Week",
+      "This Month",
+      "Last Month",
+      "This Fiscal Quarter",
+      "Last Fiscal Quarter",
+      "This Fiscal Year",
+      "Last Fiscal Year",
+      "This Fiscal Year-to-date",
+    ])
+    .optional()
+    .describe("Predefined date range; ignored when startDate/endDate are given"),
+  reportDate: dateSchema.optional().describe("As-of date for aging reports (YYYY-MM-DD)"),
+  accountingMethod: z.enum(["Cash", "Accrual"]).optional(),
+  summarizeColumnBy: z
+    .enum(["Total", "Month", "Week", "Days", "Quarter", "Year", "Customers", "Vendors", "Classes", "Departments"])
+    .optional()
+    .describe("Column breakdown"),
+  customerId: z.string().optional().describe("Filter to a customer Id (comma-separate for several)"),
+  vendorId: z.string().optional().describe("Filter to a vendor Id (comma-separate for several)"),
+  agingPeriod: z.number().int().positive().optional().describe("Days per aging bucket (aging reports)"),
+  numPeriods: z.number().int().positive().optional().describe("Number of aging buckets (aging reports)"),
+  format: z.enum(["markdown", "csv", "json"]).default("markdown").describe("Output format"),
+});
+
+const queryValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+const queryEntitiesSchema = z.object({
+  entity: z.enum(QUERY_ENTITIES).describe("Entity to query"),
+  filters: z
+    .array(
+      z.object({
+        field: z.string().describe("Whitelisted field name, e.g. DisplayName or Metadata.LastUpdatedTime"),
+        op: z.enum(QUERY_OPERATORS),
+        value: z.union([queryValueSchema, z.array(queryValueSchema)]).describe("Array only for IN; use % wildcards with LIKE"),
+      })
+    )
+    .default([])
+    .describe("Conditions combined with AND"),
+  select: z.array(z.string()).optional().describe("Fields to return (defaults to all)"),
+  orderBy: z.string().optional().describe("Whitelisted field to sort by"),
+  sort: z.enum(["ASC", "DESC"]).default("ASC"),
+  ...paginationSchema.shape,
+});
+
+const batchOperationSchema = z.object({
+  bId: z.string().min(1).optional().describe("Caller-chosen id for matching results (defaults to the 1-based position)"),
+  operation: z.enum(["create", "update", "delete", "query"]),
+  entity: z.enum(QUERY_ENTITIES),
+  data: z
+    .record(z.any())
+    .optional()
+    .describe("QuickBooks JSON for the entity (create/update/delete); update and delete need Id and SyncToken"),
+  filters: queryEntitiesSchema.shape.filters.describe("Query only: conditions combined with AND"),
+  orderBy: z.string().optional().describe("Query only: whitelisted field to sort by"),
+  sort: z.enum(["ASC", "DESC"]).default("ASC"),
+  maxResults: z.number().int().min(1).max(1000).default(100).describe("Query only"),
+});
+
+// --- Write previews ---
+
+type WritePreview = CapturedWrite & {
+  entity: string;
+  operation: string;
+  diff?: ReturnType<typeof fieldDiff>;
+};
+
+// Describe a captured write; updates and other changes to an existing record get a diff against it
+async function describeWrite(write: CapturedWrite): Promise<WritePreview> {
+  const { entity, operation, id } = writeOperation(write);
+  const body = (write.body ?? {}) as Record<string, any>;
+  const preview: WritePreview = { ...write, entity, operation };
+  if (entity === "batch") return preview;
+
+  const current = id ? await qbRequest(`${entity}/${id}`) : undefined;
+  const record = current ? Object.values(current).find((v) => v && typeof v === "object") : undefined;
+  if (operation === "create" || operation === "update") preview.diff = fieldDiff(record, body);
+  return preview;
+}
+
+// Run a tool handler as a dry run: every write it would make, with diffs, and a token to confirm them.
+// multiWrite handlers keep running past each write (see WriteGate).
+async function previewWrites(tool: string, run: () => Promise<unknown>, multiWrite = false) {
+  const gate = new WriteGate("dryRun", [], multiWrite);
+  // The handler's own result, when it finished without being stopped at a write
+  let result: unknown;
+  try {
+    result = await writeContext.run(gate, run);
+  } catch (err) {
+    if (!(err instanceof DryRunStop)) throw err;
+  }
+  const { token, expiresAt } = confirmationTokens.issue(tool, currentCompany().realmId, gate.writes);
+  const preview = {
+    tool,
+    ...(gate.plan !== undefined ? { plan: gate.plan } : {}),
+    writes: await Promise.all(gate.writes.map(describeWrite)),
+    confirmationToken: token,
+    expiresAt,
+  };
+  return { preview, result };
+}
+
+// --- MCP Server Setup ---
+
+const writeParams = {
+  dryRun: z
+    .boolean()
+    .default(false)
+    .describe("Return the exact QuickBooks payload and a field-level diff instead of writing, plus a confirmation token"),
+  confirmationToken: z
+    .string()
+    .optional()
+    .describe("Token from a dryRun preview; the write only proceeds if it matches what was previewed"),
+};
+
+const companyParams = {
+  realmId: z.string().optional().describe("Target company realmId (defaults to the default company)"),
+  companyAlias: z.string().optional().describe("Target company by alias instead of realmId"),
+};
+
+function createMcpServer() {
+  const server = new McpServer(
+    {
+      name: "quickbooks",
+      version: "1.0.0",
+    },
+    {
+      capabilities: { tools: {}, prompts: {}, resources: { subscribe: true, listChanged: true } },
+    }
+  );
+
+  const subscriptions = new Set<string>();
+  liveServers.set(server, subscriptions);
+  server.server.onclose = () => {
+    liveServers.delete(server);
+  };
+
+  // Recent webhook events across connected companies; updated notifications fire as they arrive
+  server.resource(
+    "recent_events",
+    EVENTS_URI,
+    { description: "Most recent QuickBooks webhook events (newest first)", mimeType: "application/json" },
+    async (uri) => jsonResource(uri, eventLog.list({ limit: 100 }))
+  );
+
+  // QuickBooks records, readable as qb://{realmId}/{kind}/{id}; realmId may also be an alias
+  for (const kind of RESOURCE_KINDS) {
+    server.resource(
+      kind.kind,
+      new ResourceTemplate(`qb://{realmId}/${kind.kind}/{id}`, {
+        // Listing is paged across all kinds by the resources/list handler below
+        list: undefined,
+        complete: { realmId: completeRealm },
+      }),
+      { description: `A QuickBooks ${kind.entity} as JSON`, mimeType: "application/json" },
+      async (uri, variables) => {
+        const company = resolveCompanySelector(String(variables.realmId));
+        const record = await companyContext.run(company, () => kind.get(String(variables.id)));
+        if (!record) {
+          throw new QuickBooksError({ message: `${kind.entity} ${variables.id} not found`, category: "not_found" });
+        }
+        return jsonResource(uri, record);
+      }
+    );
+  }
+
+  server.resource(
+    "company_info",
+    new ResourceTemplate("qb://{realmId}/company-info", { list: undefined, complete: { realmId: completeRealm } }),
+    { description: "QuickBooks company profile (name, address, fiscal year, country)", mimeType: "application/json" },
+    async (uri, variables) => {
+      const company = resolveCompanySelector(String(variables.realmId));
+      const data = await companyContext.run(company, () => qbRequest(`companyinfo/${company.realmId}`));
+      return jsonResource(uri, data?.CompanyInfo ?? data);
+    }
+  );
+
+  // Replaces the SDK's unpaged listing with one that walks every company's records a page at a time
+  server.server.setRequestHandler(ListResourcesRequestSchema, (request) => listResourcesPage(request.params?.cursor));
+
+  // Updated notifications for these URIs are sent as webhook events arrive
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(canonicalResourceUri(request.params.uri));
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(canonicalResourceUri(request.params.uri));
+    return {};
+  });
+
+  // Registers a QuickBooks tool: adds realmId/companyAlias params and runs the handler with that
+  // company bound, so qbRequest resolves the right base URL and tokens for the call. Errors come
+  // back as MCP isError results (see errors.ts).
+  const companyTool = <Args extends ZodRawShape>(
+    name: string,
+    description: string,
+    paramsSchema: Args,
+    cb: ToolCallback<Args>
+  ) =>
+    server.tool(name, description, { ...paramsSchema, ...companyParams }, (async (args: any, extra: any) => {
+      try {
+        const company = resolveCompany({ realmId: args.realmId, companyAlias: args.companyAlias });
+        const call: ToolCall = {
+          tool: name,
+          sessionId: extra?.sessionId ?? "stdio",
+          client: extra?.authInfo?.clientId,
+        };
+        return await companyContext.run(company, () => toolContext.run(call, () => (cb as any)(args, extra)));
+      } catch (err) {
+        // Surface failures as isError results with a category the model can act on
+        return toToolError(err);
+      }
+    }) as ToolCallback<Args & typeof companyParams>);
+
+  // Registers a tool that writes to QuickBooks: adds dryRun and confirmationToken. A dry run, or a
+  // call the confirmation policy holds back, returns a preview of the writes instead of sending them.
+  // multiWrite previews every write a handler makes, for handlers that don't use write responses.
+  const writeTool = <Args extends ZodRawShape>(
+    name: string,
+    description: string,
+    paramsSchema: Args,
+    cb: ToolCallback<Args>,
+    { multiWrite = false } = {}
+  ) =>
+    companyTool(name, description, { ...paramsSchema, ...writeParams }, (async (args: any, extra: any) => {
+      const { dryRun, confirmationToken, ...input } = args;
+      const run = () => (cb as any)(input, extra);
+
+      if (dryRun) {
+        const { preview } = await previewWrites(name, run, multiWrite);
+        return { content: [{ type: "text", text: JSON.stringify({ dryRun: true, ...preview }, null, 2) }] };
+      }
+      if (confirmationToken) {
+        const approved = confirmationTokens.redeem(confirmationToken, name, currentCompany().realmId);
+        if (approved) return writeContext.run(new WriteGate("confirm", approved), run);
+      }
+      if (confirmationToken || requiresConfirmation(CONFIRM_POLICY, name)) {
+        const {
+          preview: { confirmationToken: token, expiresAt, ...preview },
+          result,
+        } = await previewWrites(name, run, multiWrite);
+        // Nothing would be written, so there is nothing to confirm
+        if (!preview.writes.length && result !== undefined) return result;
+        throw new ConfirmationRequiredError(
+          confirmationToken
+            ? `The confirmation token for ${name} is invalid, expired or already used; review this new preview.`
+            : `${name} needs confirmation before it writes to QuickBooks; review the preview below.`,
+          preview,
+          token,
+          expiresAt
+        );
+      }
+      return run();
+    }) as ToolCallback<Args & typeof writeParams>);
+
+  // ✅ List connected companies (realms)
+  server.tool(
+    "list_companies",
+    "List connected QuickBooks companies with their realmId, alias, environment and days left before re-authorization is needed",
+    {
+      includeCompanyInfo: z.boolean().default(false).describe("Also fetch each company's legal name from QuickBooks"),
+    },
+    async ({ includeCompanyInfo }) => {
+      const rows = await Promise.all(
+        [...companies.values()].map(async (c) => {
+          const row: Record<string, any> = {
+            realmId: c.realmId,
+            alias: c.alias ?? null,
+            environment: c.environment,
+            authenticated: !!c.tokens?.access_token,
+            isDefault: c.realmId === defaultRealmId,
+            ...tokenStatus(c),
+          };
+          if (includeCompanyInfo && row.authenticated) {
+            try {
+              const data = await companyContext.run(c, () => qbRequest(`companyinfo/${c.realmId}`));
+              row.companyName = data?.CompanyInfo?.CompanyName;
+            } catch (err) {
+              row.companyInfoError = (err as Error).message;
+            }
+          }
+          return row;
+        })
+      );
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(rows, null, 2) }],
+      };
+    }
+  );
+
+  // ✅ Existing tool: Get customer by ID (unchanged)
+  companyTool(
+    "get_customer_by_id",
+    "Fetch a QuickBooks customer by ID",
+    {
+      customerId: z.string().describe("The QuickBooks customer ID"),
+      ...outputSchema.shape,
+    },
+    async ({ customerId, fields, summary, format }) => {
+      const data = await qbRequest(`customer/${customerId}`);
+      return renderRecord("Customer", data.Customer, { fields, summary, format });
+    }
+  );
+
+  // ✅ List customers (paged) using SQL-like query
+  companyTool(
+    "list_customers",
+    "List customers with pagination (uses QBO query endpoint, or the local cache with source=cache)",
+    { ...paginationSchema.shape, ...cacheParams, ...outputSchema.shape },
+    async ({ startPosition, maxResults, cursor, includeTotal, fetchAll, rowLimit, source, maxAgeSeconds, fields, summary, format }) => {
+      const output = { fields, summary, format };
+      const orderBy = { field: "Metadata.LastUpdatedTime", dir: "DESC" as const };
+      const spec: QuerySpec = { entity: "Customer", orderBy, startPosition, maxResults };
+
+      if (source === "cache") {
+        const cache = await freshCache("Customer", maxAgeSeconds);
+        const all = queryRecords(cache.records("Customer"), [], orderBy);
+        const { rows: customers, page } = cachedPage(all, spec, { cursor, fetchAll, rowLimit });
+        return renderRecords("customers", "Customer", customers, { page, freshness: cache.freshness() }, output);
+      }
+
+      const { rows: customers, page } = await qbSelectPage(spec, { cursor, includeTotal, fetchAll, rowLimit });
+
+      return renderRecords("customers", "Customer", customers, { page }, output);
+    }
+  );
+
+  // ✅ Search customers by common fields (DisplayName, Given/Family, Email, Phone)
+  companyTool(
+    "search_customers",
+    "Search customers by name/email/phone with optional pagination",
+    searchSchema.shape,
+    async ({
+      displayName,
+      companyName,
+      givenName,
+      familyName,
+      email,
+      phone,
+      activeOnly,
+      startPosition,
+      maxResults,
+      cursor,
+      includeTotal,
+      fetchAll,
+      rowLimit,
+      orderBy,
+      sort,
+      source,
+      maxAgeSeconds,
+      fields,
+      summary,
+      format,
+    }) => {
+      const output = { fields, summary, format };
+      if (source === "cache") {
+        const filters: CacheFilter[] = [];
+        if (typeof activeOnly === "boolean") filters.push({ field: "Active", equals: activeOnly });
+        if (displayName) filters.push({ field: "DisplayName", contains: displayName });
+        if (companyName) filters.push({ field: "CompanyName", contains: companyName });
+        if (givenName) filters.push({ field: "GivenName", contains: givenName });
+        if (familyName) filters.push({ field: "FamilyName", contains: familyName });
+        if (email) filters.push({ field: "PrimaryEmailAddr.Address", contains: email });
+        if (phone) filters.push({ field: "PrimaryPhone.FreeFormNumber", contains: phone });
+
+        const cache = await freshCache("Customer", maxAgeSeconds);
+        const all = queryRecords(cache.records("Customer"), filters, { field: orderBy, dir: sort });
+        // Bind the cursor to the filter values, as for a live query
+        const spec: QuerySpec = {
+          entity: "Customer",
+          where: filters.map((f) => ({ field: f.field, op: "=", value: "contains" in f ? f.contains : f.equals })),
+          orderBy: { field: orderBy, dir: sort },
+          startPosition,
+          maxResults,
+        };
+        const { rows: customers, page } = cachedPage(all, spec, { cursor, fetchAll, rowLimit });
+        return renderRecords("customers", "Customer", customers, { page, freshness: cache.freshness() }, output);
+      }
+
+      const where: QueryFilter[] = [];
+      if (typeof activeOnly === "boolean") where.push({ field: "Active", op: "=", value: activeOnly });
+      if (displayName) where.push({ field: "DisplayName", op: "LIKE", value: `${displayName}%` });
+      if (companyName) where.push({ field: "CompanyName", op: "LIKE", value: `${companyName}%` });
+      if (givenName) where.push({ field: "GivenName", op: "LIKE", value: `${givenName}%` });
+      if (familyName) where.push({ field: "FamilyName", op: "LIKE", value: `${familyName}%` });
+      if (email) where.push({ field: "PrimaryEmailAddr.Address", op: "LIKE", value: `${email}%` });
+      if (phone) where.push({ field: "PrimaryPhone.FreeFormNumber", op: "LIKE", value: `${phone}%` });
+
+      const { rows: customers, page } = await qbSelectPage(
+        {
+          entity: "Customer",
+          where,
+          orderBy: { field: orderBy, dir: sort },
+          startPosition,
+          maxResults,
+        },
+        { cursor, includeTotal, fetchAll, rowLimit }
+      );
+
+      return renderRecords("customers", "Customer", customers, { page }, output);
+    }
+  );
+
+  // ✅ Create a new customer
+  writeTool(
+    "create_customer",
+    "Create a new QuickBooks customer",
+    customerCreateSchema.shape,
+    async (input) => {
+      const body = mapCustomerInputToQBO(input);
+      const data = await qbRequest("customer", { method: "POST", body });
+      const created = data?.Customer ?? data;
+      return {
+        content: [{ type: "text", text: JSON.stringify(created, null, 2) }],
+      };
+    }
+  );
+
+  // ✅ Update an existing customer (sparse by default)
+  writeTool(
+    "update_customer",
+    "Update an existing QuickBooks customer (uses sparse update by default)",
+    customerUpdateParams,
+    async (input) => {
+      const { customerId, sparse = true, expectedSyncToken, snapshot, ...patch } = input as any;
+
+      const outcome = await updateWithConflictCheck({
+        entity: "customer",
+        fetchLatest: () => getCustomerRaw(customerId),
+        patch: mapCustomerInputToQBO(patch),
+        sparse,
+        expectedSyncToken,
+        snapshot,
+        write: async (body, current) => {
+          const data = await qbRequest("customer?operation=update", { method: "POST", body, before: current });
+          return data?.Customer ?? data;
+        },
+      });
+      return updateResult(outcome);
+    }
+  );
+
+  // ✅ Activate/Deactivate (QBO typically uses Active flag instead of hard delete)
+  writeTool(
+    "set_customer_active",
+    "Activate or deactivate a customer (Active=true/false)",
+    {
+      customerId: z.string().describe("Customer Id"),
+      active: z.boolean().describe("Set Active true/false"),
+      expectedSyncToken: conflictParams.expectedSyncToken,
+    },
+    async ({ customerId, active, expectedSyncToken }) => {
+      return updateResult(await setCustomerActive(customerId, active, expectedSyncToken));
+    }
+  );
+
+  // ✅ Find single customer by exact DisplayName (handy for dedupe flows)
+  companyTool(
+    "get_customer_by_display_name",
+    "Fetch a single customer whose DisplayName matches exactly",
+    { displayName: z.string().min(1), ...outputSchema.shape },
+    async ({ displayName, fields, summary, format }) => {
+      const customers = await qbSelect({
+        entity: "Customer",
+        where: [{ field: "DisplayName", op: "=", value: displayName }],
+      });
+      return renderRecord("Customer", customers[0] ?? null, { fields, summary, format });
+    }
+  );
+
+  // ✅ Find likely duplicate customers (fuzzy names, emails, phones, addresses; see duplicates.ts)
+  companyTool(
+    "find_duplicate_customers",
+    "Find likely duplicate customers by normalized name, email, phone and billing address, with a score and a suggested record to keep",
+    {
+      customerId: z.string().optional().describe("Only return duplicates of this customer"),
+      minScore: z.number().min(0).max(1).default(0.6).describe("Minimum pair score (0-1) to report"),
+      includeInactive: z.boolean().default(false).describe("Also compare inactive customers"),
+      maxGroups: z.number().int().min(1).max(500).default(50),
+      ...cacheParams,
+    },
+    async ({ customerId, minScore, includeInactive, maxGroups, source, maxAgeSeconds }) => {
+      let customers: any[];
+      let freshness: ReturnType<EntityCache["freshness"]> | undefined;
+      if (source === "cache") {
+        const cache = await freshCache("Customer", maxAgeSeconds);
+        customers = cache.records("Customer").filter((c) => includeInactive || c.Active !== false);
+        freshness = cache.freshness();
+      } else {
+        ({ rows: customers } = await qbSelectPage(
+          {
+            entity: "Customer",
+            // QBO leaves inactive customers out unless the query asks for them
+            where: [{ field: "Active", op: includeInactive ? "IN" : "=", value: includeInactive ? [true, false] : true }],
+            orderBy: { field: "DisplayName" },
+          },
+          { fetchAll: true }
+        ));
+      }
+
+      const groups = findDuplicateGroups(customers, minScore, customerId).slice(0, maxGroups);
+      const result = {
+        scanned: customers.length,
+        groups: groups.map((g) => ({
+          ...g,
+          customers: g.customers.map((c) => ({
+            Id: c.Id,
+            DisplayName: c.DisplayName,
+            CompanyName: c.CompanyName,
+            email: c.PrimaryEmailAddr?.Address,
+            phone: c.PrimaryPhone?.FreeFormNumber,
+            billAddr: c.BillAddr,
+            Balance: c.Balance,
+            Active: c.Active,
+            created: c.MetaData?.CreateTime,
+          })),
+        })),
+        ...(freshness ? { freshness } : {}),
+      };
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    }
+  );
+
+  // ✅ Merge duplicate customers into one: fill the survivor's missing contact fields, then
+  // deactivate the others (QBO cannot delete or truly merge customers through the API)
+  writeTool(
+    "merge_customers",
+    "Merge duplicate customers: copy missing contact fields to the survivor (sparse update), report the others' open transactions (invoices, credit memos, sales receipts, pending estimates), and deactivate the others that have none",
+    {
+      customerIds: z.array(z.string()).min(2).max(10).describe("The duplicate customers, including the survivor"),
+      survivorId: z
+        .string()
+        .optional()
+        .describe("Customer to keep (defaults to the one with an open balance or the most complete details)"),
+      deactivate: z.boolean().default(true).describe("Deactivate the other records once they have no open transactions"),
+    },
+    async ({ customerIds, survivorId, deactivate }) => {
+      const ids = [...new Set([...(survivorId ? [survivorId] : []), ...customerIds])];
+      const customers = await Promise.all(ids.map((id) => getCustomerRaw(id)));
+      const missing = ids.filter((_, i) => !customers[i]?.Id);
+      if (missing.length) {
+        throw new QuickBooksError({ message: `Customer(s) not found: ${missing.join(", ")}`, category: "not_found" });
+      }
+
+      const survivor = survivorId ? customers[0] : pickSurvivor(customers);
+      const others = customers.filter((c) => c.Id !== survivor.Id);
+
+      const { patch, sources } = mergePatch(survivor, others);
+      const survivorUpdate = Object.keys(patch).length ? await updateCustomerFields(survivor.Id, patch) : undefined;
+
+      const merged = [];
+      for (const other of others) {
+        const openTransactions = await getOpenTransactions(other.Id);
+        const row: Record<string, any> = {
+          Id: other.Id,
+          DisplayName: other.DisplayName,
+          Balance: other.Balance ?? 0,
+          openTransactions,
+          deactivated: false,
+        };
+        if (!deactivate) {
+          row.note = "Left active (deactivate=false)";
+        } else if (other.Active === false) {
+          row.note = "Already inactive";
+        } else if (openTransactions.length || Number(other.Balance ?? 0) !== 0) {
+          row.note = `Has open transactions; move them to customer ${survivor.Id}, then run set_customer_active`;
+        } else {
+          try {
+            await setCustomerActive(other.Id, false);
+            row.deactivated = true;
+          } catch (err) {
+            // A changed preview must stop the run; anything else is reported for this record
+            if (err instanceof ConfirmationRequiredError) throw err;
+            row.error = (err as Error).message;
+          }
+        }
+        merged.push(row);
+      }
+
+      const result = {
+        survivor: { Id: survivor.Id, DisplayName: survivor.DisplayName },
+        // Field -> Id of the customer it was copied from
+        copiedFields: sources,
+        ...(survivorUpdate?.mergedFields?.length ? { mergedWithConcurrentEdit: survivorUpdate.mergedFields } : {}),
+        merged,
+      };
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    },
+    { multiWrite: true }
+  );
+
+  // ✅ Get invoice by ID
+  companyTool(
+    "get_invoice_by_id",
+    "Fetch a QuickBooks invoice by ID",
+    {
+      invoiceId: z.string().describe("The QuickBooks invoice ID"),
+      ...outputSchema.shape,
+    },
+    async ({ invoiceId, fields, summary, format }) => {
+      const data = await qbRequest(`invoice/${invoiceId}`);
+      return renderRecord("Invoice", data.Invoice, { fields, summary, format });
+    }
+  );
+
+  // ✅ Search invoices by customer, date range, due date and open balance
+  companyTool(
+    "search_invoices",
+    "Search invoices by customer, invoice/due date range and open balance with optional pagination",
+    { ...invoiceSearchSchema.shape, ...outputSchema.shape },
+    async ({
+      customerId,
+      docNumber,
+      txnDateFrom,
+      txnDateTo,
+      dueDateFrom,
+      dueDateTo,
+      openOnly,
+      minBalance,
+      startPosition,
+      maxResults,
+      cursor,
+      includeTotal,
+      fetchAll,
+      rowLimit,
+      orderBy,
+      sort,
+      fields,
+      summary,
+      format,
+    }) => {
+      const output = { fields, summary, format };
+      const where: QueryFilter[] = [];
+      if (customerId) where.push({ field: "CustomerRef", op: "=", value: customerId });
+      if (docNumber) where.push({ field: "DocNumber", op: "=", value: docNumber });
+      if (txnDateFrom) where.push({ field: "TxnDate", op: ">=", value: txnDateFrom });
+      if (txnDateTo) where.push({ field: "TxnDate", op: "<=", value: txnDateTo });
+      if (dueDateFrom) where.push({ field: "DueDate", op: ">=", value: dueDateFrom });
+      if (dueDateTo) where.push({ field: "DueDate", op: "<=", value: dueDateTo });
+      if (typeof minBalance === "number") where.push({ field: "Balance", op: ">=", value: minBalance });
+      else if (openOnly) where.push({ field: "Balance", op: ">", value: 0 });
+
+      const { rows: invoices, page } = await qbSelectPage(
+        {
+          entity: "Invoice",
+          where,
+          orderBy: { field: orderBy, dir: sort },
+          startPosition,
+          maxResults,
+        },
+        { cursor, includeTotal, fetchAll, rowLimit }
+      );
+
+      return renderRecords("invoices", "Invoice", invoices, { page }, output);
+    }
+  );
+
+  // ✅ Create a new invoice
+  writeTool(
+    "create_invoice",
+    "Create a new QuickBooks invoice for a customer with item line(s)",
+    invoiceCreateSchema.shape,
+    async (input) => {
+      const body = mapInvoiceInputToQBO(input);
+      const data = await qbRequest("invoice", { method: "POST", body });
+      const created = data?.Invoice ?? data;
+      return {
+        content: [{ type: "text", text: JSON.stringify(created, null, 2) }],
+      };
+    }
+  );
+
+  // ✅ Update an existing invoice (sparse by default)
+  writeTool(
+    "update_invoice",
+    "Update an existing QuickBooks invoice (uses sparse update by default; lines are replaced when provided)",
+    invoiceUpdateParams,
+    async (input) => {
+      const { invoiceId, sparse = true, expectedSyncToken, snapshot, ...patch } = input as any;
+
+      const outcome = await updateWithConflictCheck({
+        entity: "invoice",
+        fetchLatest: () => getInvoiceRaw(invoiceId),
+        patch: mapInvoiceInputToQBO(patch),
+        sparse,
+        expectedSyncToken,
+        snapshot,
+        write: async (body, current) => {
+          const data = await qbRequest("invoice?operation=update", { method: "POST", body, before: current });
+          return data?.Invoice ?? data;
+        },
+      });
+      return updateResult(outcome);
+    }
+  );
+
+  // ✅ Email an invoice (QBO sends to BillEmail unless sendTo is given)
+  writeTool(
+    "send_invoice",
+    "Email an invoice to the customer via QuickBooks (uses BillEmail unless sendTo is provided)",
+    {
+      invoiceId: z.string().describe("Invoice Id"),
+      sendTo: z.string().email().optional().describe("Override recipient email address"),
+    },
+    async ({ invoiceId, sendTo }) => {
+      const query = sendTo ? `?sendTo=${encodeURIComponent(sendTo)}` : "";
+      const data = await qbRequest(`invoice/${invoiceId}/send${query}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/octet-stream" },
+      });
+      const sent = data?.Invoice ?? data;
+      return {
+        content: [{ type: "text", text: JSON.stringify(sent, null, 2) }],
+      };
+    }
+  );
+
+  // ✅ Void or delete an invoice (void keeps the record with zero amounts; delete removes it)
+  writeTool(
+    "void_invoice",
+    "Void (default) or permanently delete a QuickBooks invoice",
+    {
+      invoiceId: z.string().describe("Invoice Id"),
+      operation: z.enum(["void", "delete"]).default("void").describe("void keeps an audit record; delete removes it"),
+    },
+    async ({ invoiceId, operation }) => {
+      const existing = await getInvoiceRaw(invoiceId);
+      if (!existing?.Id || existing.SyncToken === undefined) {
+        throw new QuickBooksError({ message: "Could not fetch existing invoice or SyncToken.", category: "not_found" });
+      }
+
+      const body = {
+        Id: existing.Id,
+        SyncToken: existing.SyncToken,
+      };
+
+      const data = await qbRequest(`invoice?operation=${operation}`, { method: "POST", body });
+      const result = data?.Invoice ?? data;
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    }
+  );
+
+  // ✅ Download invoice PDF (returned as an embedded base64 resource)
+  companyTool(
+    "get_invoice_pdf",
+    "Download the PDF rendering of an invoice",
+    {
+      invoiceId: z.string().describe("Invoice Id"),
+    },
+    async ({ invoiceId }) => {
+      const pdf: Buffer = await qbRequest(`invoice/${invoiceId}/pdf`, {
+        method: "GET",
+        headers: { Accept: "application/pdf" },
+        responseType: "buffer",
+      });
+      return {
+        content: [
+          {
+            type: "resource",
+            resource: {
+              uri: `quickbooks://invoice/${invoiceId}.pdf`,
+              mimeType: "application/pdf",
+              blob: pdf.toString("base64"),
+            },
+          },
+        ],
+      };
+    }
+  );
+
+  // ✅ List a customer's open invoices with balances
+  companyTool(
+    "list_open_invoices",
+    "List a customer's invoices with an open balance (oldest first)",
+    {
+      customerId: z.string().describe("Customer Id"),
+      ...outputSchema.shape,
+    },
+    async ({ customerId, fields, summary, format }) => {
+      const invoices = await getOpenInvoices(customerId);
+      const totalOpen = Math.round(invoices.reduce((sum, inv) => sum + Number(inv.Balance), 0) * 100) / 100;
+      // Without fields or summary, just what collections needs
+      const output = {
+        fields: fields ?? (summary ? undefined : ["Id", "DocNumber", "TxnDate", "DueDate", "TotalAmt", "Balance"]),
+        summary,
+        format,
+      };
+      return renderRecords("invoices", "Invoice", invoices, { customerId, totalOpen }, output);
+    }
+  );
+
+  // ✅ Receive a payment and apply it to open invoices via LinkedTxn
+  writeTool(
+    "record_payment",
+    "Record a customer payment and apply it to open invoices (explicit allocations or oldest-first)",
+    paymentCreateSchema.shape,
+    async ({ customerId, totalAmount, allocations, autoApply, txnDate, paymentRefNum, paymentMethodId, depositToAccountId, privateNote }) => {
+      const open = allocations?.length || autoApply ? await getOpenInvoices(customerId) : [];
+      const { applied, unapplied } = allocatePayment(
+        open,
+        totalAmount,
+        allocations?.map((a) => ({ txnId: a.invoiceId, amount: a.amount })),
+        "invoice"
+      );
+
+      const body: any = {
+        CustomerRef: { value: customerId },
+        TotalAmt: totalAmount,
+        Line: applied.map((a) => ({
+          Amount: a.amount,
+          LinkedTxn: [{ TxnId: a.txnId, TxnType: "Invoice" }],
+        })),
+      };
+      if (txnDate) body.TxnDate = txnDate;
+      if (paymentRefNum) body.PaymentRefNum = paymentRefNum;
+      if (paymentMethodId) body.PaymentMethodRef = { value: paymentMethodId };
+      if (depositToAccountId) body.DepositToAccountRef = { value: depositToAccountId };
+      if (privateNote) body.PrivateNote = privateNote;
+
+      const data = await qbRequest("payment", { method: "POST", body });
+      const payment = data?.Payment ?? data;
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                payment,
+                applied: applied.map((a) => ({ invoiceId: a.txnId, amount: a.amount })),
+                unappliedAmount: unapplied,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+
+  // ✅ Get vendor by ID
+  companyTool(
+    "get_vendor_by_id",
+    "Fetch a QuickBooks vendor by ID",
+    {
+      vendorId: z.string().describe("The QuickBooks vendor ID"),
+      ...outputSchema.shape,
+    },
+    async ({ vendorId, fields, summary, format }) => {
+      const data = await qbRequest(`vendor/${vendorId}`);
+      return renderRecord("Vendor", data.Vendor, { fields, summary, format });
+    }
+  );
+
+  // ✅ Search vendors by common fields (DisplayName, CompanyName, Email, Phone)
+  companyTool(
+    "search_vendors",
+    "Search vendors by name/email/phone with optional pagination",
+    { ...vendorSearchSchema.shape, ...outputSchema.shape },
+    async ({ displayName, companyName, email, phone, activeOnly, startPosition, maxResults, cursor, includeTotal, fetchAll, rowLimit, orderBy, sort, fields, summary, format }) => {
+      const output = { fields, summary, format };
+      const where: QueryFilter[] = [];
+      if (typeof activeOnly === "boolean") where.push({ field: "Active", op: "=", value: activeOnly });
+      if (displayName) where.push({ field: "DisplayName", op: "LIKE", value: `${displayName}%` });
+      if (companyName) where.push({ field: "CompanyName", op: "LIKE", value: `${companyName}%` });
+      if (email) where.push({ field: "PrimaryEmailAddr.Address", op: "LIKE", value: `${email}%` });
+      if (phone) where.push({ field: "PrimaryPhone.FreeFormNumber", op: "LIKE", value: `${phone}%` });
+
+      const { rows: vendors, page } = await qbSelectPage(
+        {
+          entity: "Vendor",
+          where,
+          orderBy: { field: orderBy, dir: sort },
+          startPosition,
+          maxResults,
+        },
+        { cursor, includeTotal, fetchAll, rowLimit }
+      );
+
+      return renderRecords("vendors", "Vendor", vendors, { page }, output);
+    }
+  );
+
+  // ✅ Create a new vendor
+  writeTool(
+    "create_vendor",
+    "Create a new QuickBooks vendor",
+    vendorCreateSchema.shape,
+    async (input) => {
+      const body = mapVendorInputToQBO(input);
+      const data = await qbRequest("vendor", { method: "POST", body });
+      const created = data?.Vendor ?? data;
+      return {
+        content: [{ type: "text", text: JSON.stringify(created, null, 2) }],
+      };
+    }
+  );
+
+  // ✅ Update an existing vendor (sparse by default)
+  writeTool(
+    "update_vendor",
+    "Update an existing QuickBooks vendor (uses sparse update by default)",
+    vendorUpdateParams,
+    async (input) => {
+      const { vendorId, sparse = true, expectedSyncToken, snapshot, ...patch } = input as any;
+
+      const outcome = await updateWithConflictCheck({
+        entity: "vendor",
+        fetchLatest: () => getVendorRaw(vendorId),
+        patch: mapVendorInputToQBO(patch),
+        sparse,
+        expectedSyncToken,
+        snapshot,
+        write: async (body, current) => {
+          const data = await qbRequest("vendor?operation=update", { method: "POST", body, before: current });
+          return data?.Vendor ?? data;
+        },
+      });
+      return updateResult(outcome);
+    }
+  );
+
+  // ✅ Activate/Deactivate a vendor
+  writeTool(
+    "set_vendor_active",
+    "Activate or deactivate a vendor (Active=true/false)",
+    {
+      vendorId: z.string().describe("Vendor Id"),
+      active: z.boolean().describe("Set Active true/false"),
+      expectedSyncToken: conflictParams.expectedSyncToken,
+    },
+    async ({ vendorId, active, expectedSyncToken }) => {
+      const outcome = await updateWithConflictCheck({
+        entity: "vendor",
+        fetchLatest: () => getVendorRaw(vendorId),
+        patch: { Active: active },
+        sparse: true,
+        expectedSyncToken,
+        write: async (body, current) => {
+          const data = await qbRequest("vendor?operation=update", { method: "POST", body, before: current });
+          return data?.Vendor ?? data;
+        },
+      });
+      return updateResult(outcome);
+    }
+  );
+
+  // ✅ Create a bill against expense accounts and/or items
+  writeTool(
+    "create_bill",
+    "Create a vendor bill with expense-account and/or item lines",
+    billCreateSchema.shape,
+    async (input) => {
+      const body = mapBillInputToQBO(input);
+      const data = await qbRequest("bill", { method: "POST", body });
+      const created = data?.Bill ?? data;
+      return {
+        content: [{ type: "text", text: JSON.stringify(created, null, 2) }],
+      };
+    }
+  );
+
+  // ✅ Search bills by vendor, bill/due date range and open balance
+  companyTool(
+    "search_bills",
+    "Search bills by vendor, bill/due date range and open balance with optional pagination",
+    { ...billSearchSchema.shape, ...outputSchema.shape },
+    async ({ vendorId, docNumber, txnDateFrom, txnDateTo, dueDateFrom, dueDateTo, openOnly, startPosition, maxResults, cursor, includeTotal, fetchAll, rowLimit, orderBy, sort, fields, summary, format }) => {
+      const output = { fields, summary, format };
+      const where: QueryFilter[] = [];
+      if (vendorId) where.push({ field: "VendorRef", op: "=", value: vendorId });
+      if (docNumber) where.push({ field: "DocNumber", op: "=", value: docNumber });
+      if (txnDateFrom) where.push({ field: "TxnDate", op: ">=", value: txnDateFrom });
+      if (txnDateTo) where.push({ field: "TxnDate", op: "<=", value: txnDateTo });
+      if (dueDateFrom) where.push({ field: "DueDate", op: ">=", value: dueDateFrom });
+      if (dueDateTo) where.push({ field: "DueDate", op: "<=", value: dueDateTo });
+      if (openOnly) where.push({ field: "Balance", op: ">", value: 0 });
+
+      const { rows: bills, page } = await qbSelectPage(
+        {
+          entity: "Bill",
+          where,
+          orderBy: { field: orderBy, dir: sort },
+          startPosition,
+          maxResults,
+        },
+        { cursor, includeTotal, fetchAll, rowLimit }
+      );
+
+      return renderRecords("bills", "Bill", bills, { page }, output);
+    }
+  );
+
+  // ✅ Pay one or more bills by check or credit card
+  writeTool(
+    "record_bill_payment",
+    "Record a BillPayment by check or credit card, applied to open bills (explicit allocations or oldest-first)",
+    billPaymentCreateSchema.shape,
+    async ({
+      vendorId,
+      totalAmount,
+      payType,
+      bankAccountId,
+      creditCardAccountId,
+      allocations,
+      txnDate,
+      docNumber,
+      printLater,
+      privateNote,
+    }) => {
+      if (payType === "Check" && !bankAccountId) {
+        throw new InvalidInputError("Check payments require bankAccountId.");
+      }
+      if (payType === "CreditCard" && !creditCardAccountId) {
+        throw new InvalidInputError("CreditCard payments require creditCardAccountId.");
+      }
+
+      const open = await getOpenBills(vendorId);
+      const { applied, unapplied } = allocatePayment(
+        open,
+        totalAmount,
+        allocations?.map((a) => ({ txnId: a.billId, amount: a.amount })),
+        "bill"
+      );
+
+      const body: any = {
+        VendorRef: { value: vendorId },
+        PayType: payType,
+        TotalAmt: totalAmount,
+        Line: applied.map((a) => ({
+          Amount: a.amount,
+          LinkedTxn: [{ TxnId: a.txnId, TxnType: "Bill" }],
+        })),
+      };
+      if (payType === "Check") {
+        body.CheckPayment = {
+          BankAccountRef: { value: bankAccountId },
+          ...(typeof printLater === "boolean" ? { PrintStatus: printLater ? "NeedToPrint" : "NotSet" } : {}),
+        };
+      } else {
+        body.CreditCardPayment = { CCAccountRef: { value: creditCardAccountId } };
+      }
+      if (txnDate) body.TxnDate = txnDate;
+      if (docNumber) body.DocNumber = docNumber;
+      if (privateNote) body.PrivateNote = privateNote;
+
+      const data = await qbRequest("billpayment", { method: "POST", body });
+      const billPayment = data?.BillPayment ?? data;
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                billPayment,
+                applied: applied.map((a) => ({ billId: a.txnId, amount: a.amount })),
+                unappliedAmount: unapplied,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+
+  // ✅ Get item by ID
+  companyTool(
+    "get_item_by_id",
+    "Fetch a QuickBooks product/service item by ID",
+    {
+      itemId: z.string().describe("The QuickBooks item ID"),
+      ...outputSchema.shape,
+    },
+    async ({ itemId, fields, summary, format }) => {
+      const data = await qbRequest(`item/${itemId}`);
+      return renderRecord("Item", data.Item, { fields, summary, format });
+    }
+  );
+
+  // ✅ List items (paged)
+  companyTool(
+    "list_items",
+    "List products and services with pagination",
+    { ...paginationSchema.shape, ...outputSchema.shape },
+    async ({ startPosition, maxResults, cursor, includeTotal, fetchAll, rowLimit, fields, summary, format }) => {
+      const output = { fields, summary, format };
+      const { rows: items, page } = await qbSelectPage(
+        {
+          entity: "Item",
+          orderBy: { field: "Name", dir: "ASC" },
+          startPosition,
+          maxResults,
+        },
+        { cursor, includeTotal, fetchAll, rowLimit }
+      );
+
+      return renderRecords("items", "Item", items, { page }, output);
+    }
+  );
+
+  // ✅ Search items by name/SKU/type
+  companyTool(
+    "search_items",
+    "Search products and services by name, SKU or type with optional pagination",
+    { ...itemSearchSchema.shape, ...outputSchema.shape },
+    async ({ name, sku, type, activeOnly, startPosition, maxResults, cursor, includeTotal, fetchAll, rowLimit, orderBy, sort, fields, summary, format }) => {
+      const output = { fields, summary, format };
+      const where: QueryFilter[] = [];
+      if (typeof activeOnly === "boolean") where.push({ field: "Active", op: "=", value: activeOnly });
+      if (name) where.push({ field: "Name", op: "LIKE", value: `${name}%` });
+      if (sku) where.push({ field: "Sku", op: "=", value: sku });
+      if (type) where.push({ field: "Type", op: "=", value: type });
+
+      const { rows: items, page } = await qbSelectPage(
+        {
+          entity: "Item",
+          where,
+          orderBy: { field: orderBy, dir: sort },
+          startPosition,
+          maxResults,
+        },
+        { cursor, includeTotal, fetchAll, rowLimit }
+      );
+
+      return renderRecords("items", "Item", items, { page }, output);
+    }
+  );
+
+  // ✅ Create a new item
+  writeTool(
+    "create_item",
+    "Create a Service, NonInventory or Inventory item",
+    itemCreateSchema.shape,
+    async (input) => {
+      if (input.type === "Inventory") {
+        const missing = (["incomeAccountId", "expenseAccountId", "assetAccountId", "qtyOnHand", "invStartDate"] as const).filter(
+          (k) => input[k] === undefined
+        );
+        if (missing.length) {
+          throw new InvalidInputError(`Inventory items require: ${missing.join(", ")}`);
+        }
+      } else if (!input.incomeAccountId && !input.expenseAccountId) {
+        throw new InvalidInputError("Service and NonInventory items require incomeAccountId and/or expenseAccountId.");
+      }
+
+      const body = mapItemInputToQBO(input);
+      const data = await qbRequest("item", { method: "POST", body });
+      const created = data?.Item ?? data;
+      return {
+        content: [{ type: "text", text: JSON.stringify(created, null, 2) }],
+      };
+    }
+  );
 
-function createMcpServer() {
-  const server = new McpServer({
-    name: "quickbooks",
-    version: "1.0.0",
-    capabilities: { tools: {} },
-  });
+  // ✅ Update an existing item (sparse by default)
+  writeTool(
+    "update_item",
+    "Update an existing QuickBooks item (uses sparse update by default)",
+    itemUpdateParams,
+    async (input) => {
+      const { itemId, sparse = true, expectedSyncToken, snapshot, ...patch } = input as any;
 
-  // ✅ Existing tool: Get customer by ID (unchanged)
-  server.tool(
-    "get_customer_by_id",
-    "Fetch a QuickBooks customer by ID",
+      const outcome = await updateWithConflictCheck({
+        entity: "item",
+        fetchLatest: () => getItemRaw(itemId),
+        patch: mapItemInputToQBO(patch),
+        sparse,
+        expectedSyncToken,
+        snapshot,
+        write: async (body, current) => {
+          const data = await qbRequest("item?operation=update", { method: "POST", body, before: current });
+          return data?.Item ?? data;
+        },
+      });
+      return updateResult(outcome);
+    }
+  );
+
+  // ✅ Activate/Deactivate an item (QBO does not hard-delete items)
+  writeTool(
+    "set_item_active",
+    "Activate or deactivate an item (Active=true/false)",
     {
-      customerId: z.string().describe("The QuickBooks customer ID"),
+      itemId: z.string().describe("Item Id"),
+      active: z.boolean().describe("Set Active true/false"),
+      expectedSyncToken: conflictParams.expectedSyncToken,
     },
-    async ({ customerId }) => {
-      const data = await qbRequest(`customer/${customerId}`);
-      const customer = data.Customer;
+    async ({ itemId, active, expectedSyncToken }) => {
+      const outcome = await updateWithConflictCheck({
+        entity: "item",
+        fetchLatest: () => getItemRaw(itemId),
+        patch: { Active: active },
+        sparse: true,
+        expectedSyncToken,
+        write: async (body, current) => {
+          const data = await qbRequest("item?operation=update", { method: "POST", body, before: current });
+          return data?.Item ?? data;
+        },
+      });
+      return updateResult(outcome);
+    }
+  );
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(customer, null, 2),
-          },
-        ],
-      };
+  // ✅ Resolve an item by exact Name (name -> Id lookup for invoice/bill lines)
+  companyTool(
+    "get_item_by_name",
+    "Fetch a single item whose Name matches exactly",
+    { name: z.string().min(1), ...outputSchema.shape },
+    async ({ name, fields, summary, format }) => {
+      const items = await qbSelect({
+        entity: "Item",
+        where: [{ field: "Name", op: "=", value: name }],
+      });
+      return renderRecord("Item", items[0] ?? null, { fields, summary, format });
     }
   );
 
-  // ✅ List customers (paged) using SQL-like query
-  server.tool(
-    "list_customers",
-    "List customers with pagination (uses QBO query endpoint)",
-    paginationSchema.shape,
-    async ({ startPosition, maxResults }) => {
-      // NOTE: QBO query uses "ORDER BY" with a space
-      const sql = `SELECT * FROM Customer ORDER BY Metadata.LastUpdatedTime DESC STARTPOSITION ${startPosition} MAXRESULTS ${maxResults}`;
-      const data = await qbQuery(sql);
-      const customers = data?.QueryResponse?.Customer ?? [];
+  // ✅ Run a financial report and render it as a table
+  companyTool(
+    "get_report",
+    "Run a QuickBooks financial report (P&L, balance sheet, cash flow, aging, customer balance, trial balance) rendered as a markdown table or CSV",
+    reportSchema.shape,
+    async ({
+      reportName,
+      startDate,
+      endDate,
+      dateMacro,
+      reportDate,
+      accountingMethod,
+      summarizeColumnBy,
+      customerId,
+      vendorId,
+      agingPeriod,
+      numPeriods,
+      format,
+    }) => {
+      const report = await qbReport(reportName, {
+        start_date: startDate,
+        end_date: endDate,
+        date_macro: !startDate && !endDate ? dateMacro : undefined,
+        report_date: reportDate,
+        accounting_method: accountingMethod,
+        summarize_column_by: summarizeColumnBy,
+        customer: customerId,
+        vendor: vendorId,
+        aging_period: agingPeriod || undefined,
+        num_periods: numPeriods || undefined,
+      });
+
+      if (format === "json") {
+        return {
+          content: [{ type: "text", text: JSON.stringify(report, null, 2) }],
+        };
+      }
 
+      const flat = flattenReport(report);
+      const text = format === "csv" ? reportToCsv(flat) : reportToMarkdown(flat);
       return {
-        content: [{ type: "text", text: JSON.stringify(customers, null, 2) }],
+        content: [{ type: "text", text }],
       };
     }
   );
 
-  // ✅ Search customers by common fields (DisplayName, Given/Family, Email, Phone)
-  server.tool(
-    "search_customers",
-    "Search customers by name/email/phone with optional pagination",
-    searchSchema.shape,
+  // ✅ Generic structured query across supported entities (validated; no raw query text)
+  companyTool(
+    "query_entities",
+    `Query a supported entity with structured filters. Queryable fields: ${Object.entries(ENTITY_FIELDS)
+      .map(([entity, fields]) => `${entity} (${Object.keys(fields).join(", ")})`)
+      .join("; ")}`,
+    { ...queryEntitiesSchema.shape, ...outputSchema.shape },
     async ({
-      displayName,
-      companyName,
-      givenName,
-      familyName,
-      email,
-      phone,
-      activeOnly,
-      startPosition,
-      maxResults,
+      entity,
+      filters,
+      select,
       orderBy,
       sort,
+      startPosition,
+      maxResults,
+      cursor,
+      includeTotal,
+      fetchAll,
+      rowLimit,
+      fields,
+      summary,
+      format,
     }) => {
-      const conditions: string[] = [];
-      if (typeof activeOnly === "boolean") {
-        conditions.push(`Active = ${activeOnly ? "true" : "false"}`);
-      }
-      const esc = (s: string) => s.replace(/'/g, "\\'");
-      if (displayName) conditions.push(`DisplayName LIKE '${esc(displayName)}%'`);
-      if (companyName) conditions.push(`CompanyName LIKE '${esc(companyName)}%'`);
-      if (givenName) conditions.push(`GivenName LIKE '${esc(givenName)}%'`);
-      if (familyName) conditions.push(`FamilyName LIKE '${esc(familyName)}%'`);
-      if (email) conditions.push(`PrimaryEmailAddr.Address LIKE '${esc(email)}%'`);
-      if (phone) conditions.push(`PrimaryPhone.FreeFormNumber LIKE '${esc(phone)}%'`);
-
-      const where = conditions.length ? ` WHERE ${conditions.join(" AND ")}` : "";
-      const sql = `SELECT * FROM Customer${where} ORDER BY ${orderBy} ${sort} STARTPOSITION ${startPosition} MAXRESULTS ${maxResults}`;
-      const data = await qbQuery(sql);
-      const customers = data?.QueryResponse?.Customer ?? [];
+      const { rows, page } = await qbSelectPage(
+        {
+          entity,
+          select,
+          where: filters,
+          orderBy: orderBy ? { field: orderBy, dir: sort } : undefined,
+          startPosition,
+          maxResults,
+        },
+        { cursor, includeTotal, fetchAll, rowLimit }
+      );
+
+      // Without fields, keep the selected columns (QBO adds MetaData, domain and sparse to them)
+      return renderRecords("rows", entity, rows, { page }, { fields: fields ?? select, summary, format });
+    }
+  );
 
+  // ✅ Count rows matching structured filters (SELECT COUNT(*))
+  companyTool(
+    "count_entities",
+    "Count how many rows of a supported entity match structured filters",
+    {
+      entity: queryEntitiesSchema.shape.entity,
+      filters: queryEntitiesSchema.shape.filters,
+    },
+    async ({ entity, filters }) => {
+      const totalCount = await qbCount({ entity, where: filters });
       return {
-        content: [{ type: "text", text: JSON.stringify(customers, null, 2) }],
+        content: [{ type: "text", text: JSON.stringify({ entity, totalCount }, null, 2) }],
       };
     }
   );
 
-  // ✅ Create a new customer
-  server.tool(
-    "create_customer",
-    "Create a new QuickBooks customer",
-    customerCreateSchema.shape,
-    async (input) => {
-      const body = mapCustomerInputToQBO(input);
-      const data = await qbRequest("customer", { method: "POST", body });
-      const created = data?.Customer ?? data;
+  // ✅ Mixed create/update/delete/query operations in one /batch request
+  writeTool(
+    "batch",
+    `Run up to ${MAX_BATCH_SIZE} create, update, delete and query operations in a single QuickBooks batch request. ` +
+      "Writes take raw QuickBooks JSON in data (updates are sparse unless data.sparse is false). " +
+      "Each operation succeeds or fails on its own; results are keyed by bId.",
+    {
+      operations: z.array(batchOperationSchema).min(1).max(MAX_BATCH_SIZE),
+    },
+    async ({ operations }) => {
+      const ops: BatchOperation[] = operations.map((op) => {
+        if (op.operation === "query") {
+          return {
+            bId: op.bId,
+            operation: "query",
+            query: {
+              entity: op.entity,
+              where: op.filters,
+              orderBy: op.orderBy ? { field: op.orderBy, dir: op.sort } : undefined,
+              maxResults: op.maxResults,
+            },
+          };
+        }
+        if (!op.data) throw new InvalidInputError(`Operation ${op.bId ?? ""} (${op.operation}) needs data`, "data");
+        return { bId: op.bId, operation: op.operation, entity: op.entity, data: op.data };
+      });
+
+      const results = await qbBatch(ops);
+      const byId = Object.fromEntries(results.map(({ bId, ...rest }) => [bId, rest]));
       return {
-        content: [{ type: "text", text: JSON.stringify(created, null, 2) }],
+        content: [
+          { type: "text", text: JSON.stringify({ summary: batchSummary(results), results: byId }, null, 2) },
+        ],
       };
     }
   );
 
-  // ✅ Update an existing customer (sparse by default)
-  server.tool(
-    "update_customer",
-    "Update an existing QuickBooks customer (uses sparse update by default)",
-    customerUpdateParams,
-    async (input) => {
-      const { customerId, sparse = true, ...patch } = input as any;
+  // ✅ Create many customers at once (sent through /batch in chunks of 30)
+  writeTool(
+    "bulk_create_customers",
+    `Create up to ${MAX_BULK_OPERATIONS} customers, sent in QuickBooks batch requests of ${MAX_BATCH_SIZE}. ` +
+      "Each row succeeds or fails on its own.",
+    {
+      customers: z.array(customerCreateSchema).min(1).max(MAX_BULK_OPERATIONS),
+    },
+    async ({ customers }) => {
+      const results = await qbBatch(
+        customers.map((c) => ({ operation: "create", entity: "Customer", data: mapCustomerInputToQBO(c) }))
+      );
 
-      // get latest SyncToken
-      const existing = await getCustomerRaw(customerId);
-      if (!existing?.Id || existing.SyncToken === undefined) {
-        throw new Error("Could not fetch existing customer or SyncToken.");
-      }
+      // bIds default to the 1-based row number
+      const created = results
+        .filter((r) => r.ok)
+        .map((r) => ({ row: Number(r.bId), Id: r.result?.Id, DisplayName: r.result?.DisplayName }));
+      const failed = results
+        .filter((r) => !r.ok)
+        .map((r) => ({ row: Number(r.bId), displayName: customers[Number(r.bId) - 1]?.displayName, error: r.error }));
 
-      const body = {
-        Id: existing.Id,
-        SyncToken: existing.SyncToken,
-        ...(sparse ? { sparse: true } : {}),
-        ...mapCustomerInputToQBO(patch),
+      return {
+        content: [
+          { type: "text", text: JSON.stringify({ summary: batchSummary(results), created, failed }, null, 2) },
+        ],
       };
+    }
+  );
+
+  // ✅ Export customers as CSV (columns as import_customers reads them)
+  companyTool(
+    "export_customers",
+    "Export customers as CSV with columns named after the create_customer fields (addresses as billAddr.line1 etc.), ready for import_customers",
+    {
+      columns: z
+        .array(z.string())
+        .optional()
+        .describe(`Field paths to export, in order (defaults to id and all of: ${CUSTOMER_CSV_FIELDS.map((f) => f.path).join(", ")})`),
+      includeInactive: z.boolean().default(false),
+      ...cacheParams,
+    },
+    async ({ columns, includeInactive, source, maxAgeSeconds }) => {
+      const paths = columns ?? ["id", ...CUSTOMER_CSV_FIELDS.map((f) => f.path)];
+      const unknown = paths.filter((p) => p !== "id" && !CUSTOMER_CSV_FIELDS.some((f) => f.path === p));
+      if (unknown.length) throw new InvalidInputError(`Unknown column(s): ${unknown.join(", ")}`, "columns");
 
-      const data = await qbRequest("customer?operation=update", { method: "POST", body });
-      const updated = data?.Customer ?? data;
+      let customers: any[];
+      let note: Record<string, unknown> = {};
+      if (source === "cache") {
+        const cache = await freshCache("Customer", maxAgeSeconds);
+        customers = queryRecords(cache.records("Customer"), includeInactive ? [] : [{ field: "Active", equals: true }], {
+          field: "DisplayName",
+        });
+        note = { freshness: cache.freshness() };
+      } else {
+        const { rows, page } = await qbSelectPage(
+          {
+            entity: "Customer",
+            where: [{ field: "Active", op: includeInactive ? "IN" : "=", value: includeInactive ? [true, false] : true }],
+            orderBy: { field: "DisplayName" },
+          },
+          { fetchAll: true }
+        );
+        customers = rows;
+        if (page.hasMore) note = { truncated: `Stopped at ${rows.length} rows (QB_FETCH_ALL_LIMIT)` };
+      }
+
+      const csv = toCsv([paths, ...customers.map((c) => inputToRow({ id: c.Id, ...customerToInput(c) }, paths))]);
       return {
-        content: [{ type: "text", text: JSON.stringify(updated, null, 2) }],
+        content: [
+          { type: "text", text: csv },
+          { type: "text", text: JSON.stringify({ rows: customers.length, ...note }, null, 2) },
+        ],
       };
     }
   );
 
-  // ✅ Activate/Deactivate (QBO typically uses Active flag instead of hard delete)
-  server.tool(
-    "set_customer_active",
-    "Activate or deactivate a customer (Active=true/false)",
+  // ✅ Import customers from CSV: validate every row, then create or update (upsert) in batches
+  writeTool(
+    "import_customers",
+    "Import customers from CSV. Columns map onto the create_customer fields (billAddr.line1, shipAddr.city, ...). " +
+      "Every row is validated first; rows matching an existing customer (id column, DisplayName or email) update it instead of creating a duplicate. " +
+      "Use dryRun to see the row-by-row plan and the batch requests without writing.",
     {
-      customerId: z.string().describe("Customer Id"),
-      active: z.boolean().describe("Set Active true/false"),
+      csv: z.string().min(1).describe("CSV text with a header row"),
+      mapping: z
+        .record(z.string())
+        .optional()
+        .describe('CSV header -> field path, e.g. {"Customer": "displayName", "Street": "billAddr.line1"}; other headers are matched by name'),
+      matchBy: z
+        .array(z.enum(["displayName", "email"]))
+        .default(["displayName", "email"])
+        .describe("How rows without an id are matched to existing customers, in order (case-insensitive)"),
+      onMatch: z.enum(["update", "skip"]).default("update").describe("What to do with rows that match an existing customer"),
+      skipInvalid: z.boolean().default(false).describe("Import the valid rows even when some rows are invalid"),
     },
-    async ({ customerId, active }) => {
-      const existing = await getCustomerRaw(customerId);
-      if (!existing?.Id || existing.SyncToken === undefined) {
-        throw new Error("Could not fetch existing customer or SyncToken.");
+    async ({ csv, mapping, matchBy, onMatch, skipInvalid }) => {
+      // Inactive customers still hold their display names, so match against them too
+      const existing = await qbSelectAllRows("Customer", [{ field: "Active", op: "IN", value: [true, false] }]);
+      const plan = planCustomerImport(csv, { mapping, matchBy, onMatch }, existing);
+      const rowReport = (rows: ImportRow[], extra: Record<string, unknown> = {}) => ({
+        summary: importSummary(rows),
+        ...extra,
+        ...(plan.ignoredColumns.length ? { ignoredColumns: plan.ignoredColumns } : {}),
+        rows: rows.map(({ body, ...r }) => r),
+      });
+      const report = (rows: ImportRow[], extra: Record<string, unknown> = {}) => ({
+        content: [{ type: "text" as const, text: JSON.stringify(rowReport(rows, extra), null, 2) }],
+      });
+
+      // A dry run (or a held call) shows the row plan next to the batch requests
+      const gate = writeContext.getStore();
+      if (gate?.mode === "dryRun") gate.plan = rowReport(plan.rows);
+
+      const invalid = plan.rows.filter((r) => r.action === "invalid").length;
+      if (invalid && !skipInvalid) {
+        return report(plan.rows, {
+          written: false,
+          message: `${invalid} row(s) are invalid; nothing was written. Fix them or pass skipInvalid.`,
+        });
       }
 
-      const body = {
-        Id: existing.Id,
-        SyncToken: existing.SyncToken,
-        sparse: true,
-        Active: active,
+      const writes = plan.rows.filter((r) => r.action === "create" || r.action === "update");
+      const results = writes.length
+        ? await qbBatch(
+            writes.map((r) => ({
+              bId: String(r.row),
+              operation: r.action as "create" | "update",
+              entity: "Customer",
+              data: r.body!,
+            }))
+          )
+        : [];
+      const byRow = new Map(results.map((res) => [Number(res.bId), res]));
+      const rows = plan.rows.map((r): ImportRow => {
+        const res = byRow.get(r.row);
+        if (!res) return r;
+        if (!res.ok) return { ...r, action: "failed", errors: [res.error?.message ?? "Failed"] };
+        return { ...r, customerId: res.result?.Id ?? r.customerId };
+      });
+      // written only when something was; failed rows carry their errors
+      const { succeeded, failed } = batchSummary(results);
+      return report(rows, {
+        written: succeeded > 0,
+        succeeded,
+        failed,
+        ...(failed ? { message: `${failed} of ${results.length} write(s) failed; see the failed rows.` } : {}),
+      });
+    }
+  );
+
+  // ✅ Change Data Capture: what changed since a point in time
+  companyTool(
+    "get_changes_since",
+    "List records created, updated or deleted since a point in time (QuickBooks Change Data Capture, last 30 days)",
+    {
+      since: z.string().describe("ISO date or date-time, at most 30 days ago"),
+      entities: z
+        .array(z.enum(QUERY_ENTITIES))
+        .min(1)
+        .optional()
+        .describe(`Entities to check (defaults to ${CDC_ENTITIES.join(", ")})`),
+      includeRecords: z
+        .boolean()
+        .default(false)
+        .describe("Return records (shaped by fields/summary) instead of Id/time summaries; JSON formats only"),
+      ...outputSchema.shape,
+    },
+    async ({ since, entities, includeRecords, fields, summary, format }) => {
+      const sinceMs = Date.parse(since);
+      if (Number.isNaN(sinceMs)) throw new InvalidInputError("since must be an ISO date or date-time", "since");
+      if (Date.now() - sinceMs > 30 * 24 * 60 * 60 * 1000) {
+        throw new InvalidInputError("QuickBooks only reports changes from the last 30 days", "since");
+      }
+
+      const { changes, counts } = parseCdcResponse(
+        await cdcSource.fetchChanges(entities ?? CDC_ENTITIES, new Date(sinceMs).toISOString())
+      );
+      // What we just saw is current, so keep the local cache in step
+      cacheFor().applyChanges(changes);
+
+      // CDC stops at 1000 objects per entity
+      const truncated = Object.keys(counts).filter((e) => counts[e] >= 1000);
+      const meta = { since, counts, ...(truncated.length ? { truncated } : {}) };
+      const compact = format === "compact";
+      const rows = changes.map(({ record, ...change }) =>
+        includeRecords && record
+          ? { ...change, record: shapeRecord(record, outputFields(change.entity, { fields, summary }), compact) }
+          : change
+      );
+      // Changes span entities, so tables list the changes themselves
+      return renderRows("changes", rows, ["entity", "id", "deleted", "lastUpdatedTime"], meta, format);
+    }
+  );
+
+  // ✅ Refresh the local cache now and report its state
+  companyTool(
+    "sync_cache",
+    "Sync the local cache with QuickBooks now (incremental via Change Data Capture unless full=true) and report its freshness",
+    {
+      full: z.boolean().default(false).describe("Discard the cache and reload every entity"),
+    },
+    async ({ full }) => {
+      const cache = cacheFor();
+      if (full) cache.reset();
+      const result = await cache.sync(cdcSource);
+      const records = Object.fromEntries(CDC_ENTITIES.map((e) => [e, cache.records(e).length]));
+      return {
+        content: [
+          { type: "text", text: JSON.stringify({ ...result, records, freshness: cache.freshness() }, null, 2) },
+        ],
       };
+    }
+  );
 
-      const data = await qbRequest("customer?operation=update", { method: "POST", body });
-      const updated = data?.Customer ?? data;
+  // ✅ Webhook events received for this company
+  companyTool(
+    "list_recent_events",
+    "List recent QuickBooks webhook events (records created, updated, deleted, voided, merged or emailed) for the company, newest first",
+    {
+      entity: z.string().optional().describe("Only this entity, e.g. Invoice or Customer"),
+      operation: z.enum(["Create", "Update", "Delete", "Merge", "Void", "Emailed"]).optional(),
+      since: z.string().optional().describe("Only events received after this ISO date-time"),
+      limit: z.number().int().min(1).max(1000).default(50),
+    },
+    async ({ entity, operation, since, limit }) => {
+      const events = eventLog.list({ realmId: currentCompany().realmId, entity, operation, since, limit });
       return {
-        content: [{ type: "text", text: JSON.stringify(updated, null, 2) }],
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ webhooksConfigured: !!WEBHOOK_VERIFIER_TOKEN, events }, null, 2),
+          },
+        ],
       };
     }
   );
 
-  // ✅ Find single customer by exact DisplayName (handy for dedupe flows)
-  server.tool(
-    "get_customer_by_display_name",
-    "Fetch a single customer whose DisplayName matches exactly",
-    { displayName: z.string().min(1) },
-    async ({ displayName }) => {
-      const safe = displayName.replace(/'/g, "\\'");
-      const sql = `SELECT * FROM Customer WHERE DisplayName = '${safe}'`;
-      const data = await qbQuery(sql);
-      const customers = data?.QueryResponse?.Customer ?? [];
-      const hit = customers[0] ?? null;
+  // ✅ What the assistant changed: the audit log of writes for this company
+  companyTool(
+    "get_audit_log",
+    "Read the audit log of writes made through this server (newest first), filtered by entity, record, tool, " +
+      "session or time range. Each entry shows the fields changed; includeSnapshots adds the full before/after records.",
+    {
+      entity: z.string().optional().describe("Entity name, e.g. Customer or Invoice"),
+      entityId: z.string().optional().describe("Only entries for this record Id"),
+      tool: z.string().optional().describe("Only writes made by this tool, e.g. update_customer"),
+      sessionId: z.string().optional().describe("Only writes from this MCP session"),
+      status: z.enum(["ok", "error"]).optional().describe("Only successful or failed writes"),
+      since: z.string().datetime({ offset: true }).optional().describe("From this ISO date-time (inclusive)"),
+      until: z.string().datetime({ offset: true }).optional().describe("Up to this ISO date-time (inclusive)"),
+      includeSnapshots: z.boolean().default(false).describe("Include the full before and after records"),
+      limit: z.number().int().min(1).max(500).default(50),
+    },
+    async ({ includeSnapshots, ...filter }) => {
+      if (!auditLog) {
+        throw new InvalidInputError("The audit log is off; set QB_AUDIT_LOG to a file path to record writes.");
+      }
+      const records = auditLog.query({ ...filter, realmId: currentCompany().realmId });
+      const entries = records.map(({ before, after, ...record }) => ({
+        ...record,
+        ...(after && record.status === "ok" && record.operation !== "delete"
+          ? { changes: fieldDiff(before, after as Record<string, any>) }
+          : {}),
+        ...(includeSnapshots ? { before, after } : {}),
+      }));
+      const body = { count: entries.length, ...(AUDIT_LOG_WARNING ? { warning: AUDIT_LOG_WARNING } : {}), entries };
       return {
-        content: [{ type: "text", text: JSON.stringify(hit, null, 2) }],
+        content: [{ type: "text", text: JSON.stringify(body, null, 2) }],
       };
     }
   );
 
+  // --- Prompts ---
+  //
+  // Bookkeeping workflows that pull live data for the chosen company and hand the model a worked
+  // brief (see prompts.ts). Prompt arguments are strings; "company" takes a realmId or alias.
+
+  const companyArg = z.string().optional().describe("realmId or alias; defaults to the only/default company");
+  const inCompany = <T>(selector: string | undefined, fn: () => Promise<T>): Promise<T> =>
+    companyContext.run(selector ? resolveCompanySelector(selector) : resolveCompany(), fn);
+
+  server.prompt(
+    "collections_follow_up",
+    "Review a customer's overdue invoices and payment history and draft a collections follow-up",
+    {
+      customer: z.string().describe("Customer Id or exact DisplayName"),
+      tone: z.string().optional().describe("Tone for the drafted email, e.g. friendly, firm, final notice"),
+      company: companyArg,
+    },
+    ({ customer, tone, company }) =>
+      inCompany(company, async () => {
+        const record = await findByIdOrName("Customer", customer, getCustomerRaw);
+        const [openInvoices, recentPayments] = await Promise.all([
+          getOpenInvoices(record.Id),
+          qbSelect({
+            entity: "Payment",
+            where: [{ field: "CustomerRef", op: "=", value: record.Id }],
+            orderBy: { field: "TxnDate", dir: "DESC" },
+            maxResults: 5,
+          }),
+        ]);
+        return collectionsPrompt({ customer: record, openInvoices, recentPayments, asOf: new Date(), tone });
+      })
+  );
+
+  server.prompt(
+    "month_end_close",
+    "Month-end close checklist for a period, with P&L, balance sheet, aging and open items pulled from QuickBooks",
+    {
+      period: z.string().describe("Month to close as YYYY-MM, e.g. 2024-03"),
+      company: companyArg,
+    },
+    ({ period, company }) =>
+      inCompany(company, async () => {
+        const match = /^(\d{4})-(0[1-9]|1[0-2])$/.exec(period.trim());
+        if (!match) throw new InvalidInputError(`period must be YYYY-MM, got "${period}"`, "period");
+        const [year, month] = [Number(match[1]), Number(match[2])];
+        const startDate = `${match[1]}-${match[2]}-01`;
+        // Day 0 of the next month is the last day of this one
+        const endDate = new Date(Date.UTC(year, month, 0)).toISOString().slice(0, 10);
+
+        const markdown = async (name: string, params: Record<string, string | undefined>) =>
+          reportToMarkdown(flattenReport(await qbReport(name, params)));
+
+        const [profitAndLoss, balanceSheet, receivablesAging, payablesAging, unsentInvoices, openBillsDue] =
+          await Promise.all([
+            markdown("ProfitAndLoss", { start_date: startDate, end_date: endDate }),
+            markdown("BalanceSheet", { start_date: startDate, end_date: endDate }),
+            markdown("AgedReceivables", { report_date: endDate }),
+            markdown("AgedPayables", { report_date: endDate }),
+            qbCount({
+              entity: "Invoice",
+              where: [
+                { field: "TxnDate", op: ">=", value: startDate },
+                { field: "TxnDate", op: "<=", value: endDate },
+                { field: "EmailStatus", op: "IN", value: ["NotSet", "NeedToSend"] },
+              ],
+            }),
+            qbCount({
+              entity: "Bill",
+              where: [
+                { field: "Balance", op: ">", value: 0 },
+                { field: "DueDate", op: "<=", value: endDate },
+              ],
+            }),
+          ]);
+
+        return monthEndPrompt({
+          period: period.trim(),
+          startDate,
+          endDate,
+          profitAndLoss,
+          balanceSheet,
+          receivablesAging,
+          payablesAging,
+          unsentInvoices,
+          openBillsDue,
+        });
+      })
+  );
+
+  server.prompt(
+    "reconcile_vendor_statement",
+    "Reconcile a vendor's statement against open bills and recent bill payments in QuickBooks",
+    {
+      vendor: z.string().describe("Vendor Id or exact DisplayName"),
+      statementBalance: z.string().optional().describe("Closing balance shown on the vendor's statement"),
+      statementText: z.string().optional().describe("Statement lines pasted as text (date, reference, amount)"),
+      company: companyArg,
+    },
+    ({ vendor, statementBalance, statementText, company }) =>
+      inCompany(company, async () => {
+        const record = await findByIdOrName("Vendor", vendor, getVendorRaw);
+        const since = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+        const [openBills, recentPayments] = await Promise.all([
+          getOpenBills(record.Id),
+          qbSelect({
+            entity: "BillPayment",
+            where: [
+              { field: "VendorRef", op: "=", value: record.Id },
+              { field: "TxnDate", op: ">=", value: since },
+            ],
+            orderBy: { field: "TxnDate", dir: "DESC" },
+            maxResults: MAX_PAGE_SIZE,
+          }),
+        ]);
+        return vendorStatementPrompt({
+          vendor: record,
+          openBills,
+          recentPayments,
+          asOf: new Date(),
+          statementBalance,
+          statementText,
+        });
+      })
+  );
+
+  server.prompt(
+    "clean_up_duplicate_customers",
+    "Find likely duplicate customers (similar names, shared emails, phones or addresses) and plan which records to keep and merge",
+    {
+      namePrefix: z.string().optional().describe("Only scan customers whose DisplayName starts with this"),
+      company: companyArg,
+    },
+    ({ namePrefix, company }) =>
+      inCompany(company, async () => {
+        const { rows } = await qbSelectPage(
+          {
+            entity: "Customer",
+            where: [
+              { field: "Active", op: "=", value: true },
+              ...(namePrefix ? [{ field: "DisplayName", op: "LIKE" as const, value: `${namePrefix}%` }] : []),
+            ],
+            orderBy: { field: "DisplayName" },
+          },
+          { fetchAll: true }
+        );
+        return duplicateCleanupPrompt({ groups: findDuplicateGroups(rows), scanned: rows.length });
+      })
+  );
+
   return server;
 }
 
 // --- Express App for Web Deployment ---
 
+// JSON-RPC error body for transport-level failures on the MCP endpoints
+function jsonRpcError(res: express.Response, status: number, message: string) {
+  res.status(status).json({ jsonrpc: "2.0", error: { code: -32000, message }, id: null });
+}
+
 function createExpressApp() {
   const app = express();
-  
+
+  // Intuit webhook notifications. Registered before the JSON parser: the signature covers the raw body
+  app.post("/webhooks", express.raw({ type: "*/*" }), (req, res) => {
+    if (!WEBHOOK_VERIFIER_TOKEN) {
+      return res.status(503).json({ error: "Webhooks are not configured (QB_WEBHOOK_VERIFIER_TOKEN)" });
+    }
+    const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    if (!verifyWebhookSignature(rawBody, req.header("intuit-signature"), WEBHOOK_VERIFIER_TOKEN)) {
+      return res.status(401).json({ error: "Invalid signature" });
+    }
+
+    let payload: any;
+    try {
+      payload = JSON.parse(rawBody.toString("utf8"));
+    } catch {
+      return res.status(400).json({ error: "Invalid JSON" });
+    }
+
+    const added = eventLog.add(parseWebhookPayload(payload));
+    console.error(`[Webhook] ${added.length} new event(s)`);
+    // Intuit expects a quick 200; anything else is retried
+    res.status(200).end();
+  });
+
   // Add JSON parsing middleware
   app.use(express.json());
-  
-  // Store active transports by session ID
-  const activeTransports = new Map<string, any>();
-  
+
+  // Browsers may only call the MCP endpoints from configured origins; other clients send no Origin
+  app.use(["/mcp", "/sse", "/messages", "/disconnect"], (req, res, next) => {
+    const origin = req.header("origin");
+    if (origin) {
+      if (!MCP_ALLOWED_ORIGINS.includes(origin)) return res.status(403).json({ error: "Origin not allowed" });
+      res.set({
+        "Access-Control-Allow-Origin": origin,
+        "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+        "Access-Control-Allow-Headers": "Authorization, Content-Type, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID",
+        "Access-Control-Expose-Headers": "Mcp-Session-Id, WWW-Authenticate",
+        Vary: "Origin",
+      });
+    }
+    if (req.method === "OPTIONS") return res.status(204).end();
+    next();
+  });
+
+  // Bearer authentication for everything that can read or change the books; sets req.auth
+  const resourceMetadataUrl =
+    MCP_OAUTH_ISSUER && MCP_PUBLIC_URL ? `${MCP_PUBLIC_URL}/.well-known/oauth-protected-resource` : undefined;
+  const requireAuth: express.RequestHandler = MCP_TOKEN_VERIFIER
+    ? requireBearerAuth({ verifier: MCP_TOKEN_VERIFIER, resourceMetadataUrl })
+    : (req, res, next) => {
+        if (!MCP_ALLOW_UNAUTHENTICATED) {
+          return res.status(503).json({
+            error: "MCP authentication is not configured (MCP_API_KEYS or MCP_OAUTH_INTROSPECTION_URL)",
+          });
+        }
+        req.auth = { token: "", clientId: "anonymous", scopes: [] };
+        next();
+      };
+
+  // OAuth protected resource metadata (RFC 9728), so clients can discover the authorization server
+  if (MCP_OAUTH_ISSUER) {
+    app.get("/.well-known/oauth-protected-resource", (req, res) => {
+      const base = MCP_PUBLIC_URL || `${req.protocol}://${req.get("host")}`;
+      res.json({ resource: `${base}/mcp`, authorization_servers: [MCP_OAUTH_ISSUER], bearer_methods_supported: ["header"] });
+    });
+  }
+
+  // Make sure stored tokens are loaded before any route runs (serverless cold starts)
+  app.use(async (req, res, next) => {
+    try {
+      await ensureTokensLoaded();
+      next();
+    } catch (err) {
+      next(err);
+    }
+  });
+
   // Health check endpoint
+  // Public, so it says nothing about which companies are connected
   app.get("/", (req, res) => {
-    res.json({ 
-      status: "ok", 
-      message: "QuickBooks MCP Server",
-      authenticated: !!tokens?.access_token 
+    res.json({
+      status: "ok",
+      authenticated: [...companies.values()].some((c) => !!c.tokens?.access_token),
     });
   });
 
-  // OAuth initiation endpoint
+  // Connected companies and how long until each must be re-authorized
+  app.get("/status", requireAuth, (req, res) => {
+    res.json({
+      status: "ok",
+      environment: QB_ENVIRONMENT,
+      tokenStore: tokenStore.kind,
+      companies: [...companies.values()].map((c) => ({
+        realmId: c.realmId,
+        alias: c.alias ?? null,
+        authenticated: !!c.tokens?.access_token,
+        reauthorizeInDays: tokenStatus(c).reauthorizeInDays,
+      })),
+    });
+  });
+
+  // OAuth initiation endpoint (optional ?alias= names the company being connected)
   app.get("/auth", (req, res) => {
-    const authUrl = `https://appcenter.intuit.com/connect/oauth2?client_id=${CLIENT_ID}&redirect_uri=${encodeURIComponent(
-      REDIRECT_URI
-    )}&response_type=code&scope=com.intuit.quickbooks.accounting&state=12345`;
-    
-    res.redirect(authUrl);
+    const alias = typeof req.query.alias === "string" ? req.query.alias : undefined;
+    const { state, nonce } = createState(OAUTH_CONFIG, { alias });
+    // Bind the state to this browser so a callback started elsewhere is rejected
+    res.cookie(STATE_COOKIE, nonce, {
+      httpOnly: true,
+      secure: REDIRECT_URI.startsWith("https://"),
+      sameSite: "lax",
+      maxAge: 10 * 60 * 1000,
+    });
+    res.redirect(authorizeUrl(OAUTH_CONFIG, state));
   });
 
   // OAuth callback endpoint
   app.get("/callback", async (req, res) => {
-    const code = req.query.code as string;
-    if (!code) {
-      return res.status(400).send("No authorization code provided");
+    try {
+      const expectedNonce = readCookie(req.headers.cookie, STATE_COOKIE);
+      if (!expectedNonce) {
+        throw new OAuthError("Authorization session not found; start again at /auth.");
+      }
+      const result = await handleCallback(OAUTH_CONFIG, req.query, { expectedNonce, defaultRealmId: REALM_ID });
+      await connectCompany(result.realmId, result.tokens, result.state.alias);
+
+      res.clearCookie(STATE_COOKIE);
+      res.send(successPage(result.realmId));
+    } catch (error) {
+      console.error("OAuth callback error:", (error as Error).message);
+      const status = error instanceof OAuthError ? error.status : 500;
+      res.status(status).send(status === 500 ? "Authentication failed" : escapeHtml((error as Error).message));
     }
+  });
 
+  // Revoke a company's tokens at Intuit and remove them from the token store
+  app.post("/disconnect", requireAuth, async (req, res) => {
     try {
-      const resp = await fetch(
-        "https://oauth.platform.intuit.com/oauth2/v1/tokens/bearer",
-        {
-          method: "POST",
-          headers: {
-            Authorization:
-              "Basic " +
-              Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString("base64"),
-            "Content-Type": "application/x-www-form-urlencoded",
-          },
-          body: `grant_type=authorization_code&code=${encodeURIComponent(
-            code
-          )}&redirect_uri=${encodeURIComponent(REDIRECT_URI)}`,
+      const company = resolveCompany({
+        realmId: (req.query.realmId as string) || req.body?.realmId,
+        companyAlias: (req.query.companyAlias as string) || req.body?.companyAlias,
+      });
+      res.json(await disconnectCompany(company));
+    } catch (error) {
+      res.status(400).json({ error: (error as Error).message });
+    }
+  });
+
+  // Resuming a session the client initialized elsewhere: send its initialize request through the
+  // fresh transport, which then takes the stored session id, and drop the reply.
+  const replayInitialize = async (transport: StreamableHTTPServerTransport, record: SessionRecord) => {
+    const req = new http.IncomingMessage(new net.Socket());
+    req.method = "POST";
+    req.headers = { accept: "application/json, text/event-stream", "content-type": "application/json" };
+    const params = record.initialize ?? {
+      // Sessions recorded before initialize params were kept
+      protocolVersion: LATEST_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: "resumed-session", version: "0" },
+    };
+    const message = { jsonrpc: "2.0", id: `resume-${record.id}`, method: "initialize", params };
+    await transport.handleRequest(req, new http.ServerResponse(req), message);
+    if (transport.sessionId !== record.id) throw new Error(`Could not resume MCP session ${record.id}`);
+  };
+
+  // Streamable HTTP sessions live on this instance. Each is also recorded in the session store, so a
+  // request for a session this instance has not seen (another serverless instance, a restart) resumes it.
+  const mcpSessions = new Map<string, { transport: StreamableHTTPServerTransport; record: SessionRecord }>();
+
+  // A new session (initialize params from the client) or a resumed one (its stored record)
+  const openSession = async (
+    id: string,
+    owner: string,
+    from: { record: SessionRecord } | { initialize: InitializeRequest["params"] }
+  ) => {
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => id,
+      eventStore: sessionStore.eventStore(id),
+      onsessioninitialized: async () => {
+        const record = "record" in from ? from.record : await sessionStore.create(id, owner, from.initialize);
+        mcpSessions.set(id, { transport, record });
+      },
+      // DELETE /mcp from the client
+      onsessionclosed: () => sessionStore.delete(id),
+    });
+    transport.onclose = () => {
+      mcpSessions.delete(id);
+    };
+    await createMcpServer().connect(transport);
+    if ("record" in from) await replayInitialize(transport, from.record);
+    return transport;
+  };
+
+  // Close sessions that have gone unused for MCP_SESSION_TTL_SECONDS
+  const sweep = setInterval(() => {
+    for (const [id, session] of mcpSessions) {
+      if (!sessionStore.expired(session.record)) continue;
+      console.log(`MCP session expired: ${id}`);
+      void session.transport.close();
+      sessionStore.delete(id).catch((err) => console.error("Session cleanup failed:", (err as Error).message));
+    }
+  }, 60 * 1000);
+  sweep.unref();
+
+  // Streamable HTTP endpoint for MCP: POST messages, GET the notification stream, DELETE to end
+  app.all("/mcp", requireAuth, async (req, res) => {
+    const owner = req.auth!.clientId;
+    const sessionId = req.header("mcp-session-id");
+    try {
+      if (sessionId) {
+        let session = mcpSessions.get(sessionId);
+        if (!session) {
+          const record = await sessionStore.get(sessionId);
+          if (record?.owner === owner) {
+            await openSession(sessionId, owner, { record });
+            session = mcpSessions.get(sessionId);
+          }
         }
-      );
+        // Someone else's session looks the same as an unknown one
+        if (!session || session.record.owner !== owner) return jsonRpcError(res, 404, "Session not found");
+        await sessionStore.touch(session.record);
+        return await session.transport.handleRequest(req, res, req.body);
+      }
 
-      if (!resp.ok) {
-        throw new Error(`Token exchange failed: ${resp.status}`);
-      }
-
-      const data = await resp.json();
-      tokens = data as Record<string, any>;
-      saveTokens(tokens);
-
-      res.send(`
-        <html>
-          <body>
-            <h2>Authentication successful!</h2>
-            <p><strong>Save these environment variables for production:</strong></p>
-            <pre>QB_ACCESS_TOKEN=${tokens.access_token}
-QB_REFRESH_TOKEN=${tokens.refresh_token}</pre>
-            <p>You can close this window.</p>
-          </body>
-        </html>
-      `);
+      if (req.method === "POST" && isInitializeRequest(req.body)) {
+        const id = crypto.randomUUID();
+        const transport = await openSession(id, owner, { initialize: req.body.params });
+        await transport.handleRequest(req, res, req.body);
+        // Initialization was rejected: nothing will ever address this transport
+        if (!mcpSessions.has(id)) await transport.close();
+        return;
+      }
+      jsonRpcError(res, 400, "Missing Mcp-Session-Id header; start the session with an initialize request");
     } catch (error) {
-      console.error("OAuth callback error:", error);
-      res.status(500).send("Authentication failed");
+      console.error("MCP request error:", error);
+      if (!res.headersSent) jsonRpcError(res, 500, "Internal server error");
     }
   });
 
-  // SSE endpoint for MCP - establish connection and send endpoint event
-  app.get("/sse", async (req, res) => {
-    try {
-      console.log("New SSE connection request");
-      
-      // Set up SSE headers
-      res.writeHead(200, {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Headers': 'Cache-Control',
-      });
+  // Legacy HTTP+SSE transport. Sessions exist only while their stream is open on this instance,
+  // so serverless deployments should use /mcp.
+  const sseSessions = new Map<string, { transport: SSEServerTransport; owner: string }>();
 
-      // Create server and transport
-      const server = createMcpServer();
+  app.get("/sse", requireAuth, async (req, res) => {
+    try {
       const transport = new SSEServerTransport("/messages", res);
-      
-      // Store transport for message handling
-      const sessionId = transport.sessionId || 'default';
-      activeTransports.set(sessionId, transport);
-      
-      // Clean up on disconnect
-      res.on('close', () => {
+      const sessionId = transport.sessionId;
+      sseSessions.set(sessionId, { transport, owner: req.auth!.clientId });
+
+      res.on("close", () => {
         console.log(`SSE connection closed for session: ${sessionId}`);
-        activeTransports.delete(sessionId);
+        sseSessions.delete(sessionId);
       });
 
-      // Connect server to transport
-      await server.connect(transport);
-      
+      // Sends the SSE headers and the endpoint event
+      await createMcpServer().connect(transport);
       console.log(`SSE connection established for session: ${sessionId}`);
-      
     } catch (error) {
       console.error("SSE connection error:", error);
-      res.status(500).json({ error: "Failed to establish SSE connection" });
+      if (!res.headersSent) res.status(500).json({ error: "Failed to establish SSE connection" });
     }
   });
 
-  // Message endpoint for MCP JSON-RPC
-  app.post("/messages", async (req, res) => {
+  // Message endpoint for the legacy SSE transport
+  app.post("/messages", requireAuth, async (req, res) => {
+    const sessionId = typeof req.query.sessionId === "string" ? req.query.sessionId : "";
+    const session = sseSessions.get(sessionId);
+    if (!session || session.owner !== req.auth!.clientId) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+
     try {
-      console.log("Message received:", JSON.stringify(req.body, null, 2));
-      
-      const sessionId = req.query.sessionId as string || 'default';
-      const transport = activeTransports.get(sessionId);
-      
-      if (!transport) {
-        console.error(`No transport found for session: ${sessionId}`);
-        return res.status(400).json({ error: "No active transport found" });
-      }
-
-      // Handle the message through the transport
-      await transport.handlePostMessage(req, res, req.body);
-      
+      await session.transport.handlePostMessage(req, res, req.body);
     } catch (error) {
       console.error("Message handling error:", error);
-      res.status(500).json({ error: "Failed to handle message" });
+      if (!res.headersSent) res.status(500).json({ error: "Failed to handle message" });
     }
   });
 
@@ -710,10 +4096,19 @@ QB_REFRESH_TOKEN=${tokens.refresh_token}</pre>
 // --- MAIN ---
 
 async function main() {
-  loadTokens();
+  await ensureTokensLoaded();
 
   if (process.argv[2] === "auth") {
-    await authenticate();
+    // Optional alias for the company being connected: `auth <alias>`
+    await authenticate(process.argv[3]);
+    process.exit(0);
+  }
+
+  if (process.argv[2] === "disconnect") {
+    // `disconnect [realmId|alias]` - defaults to the default company
+    const selector = process.argv[3];
+    const company = selector ? resolveCompanySelector(selector) : resolveCompany();
+    console.log(JSON.stringify(await disconnectCompany(company), null, 2));
     process.exit(0);
   }
 
@@ -725,8 +4120,16 @@ async function main() {
     if (!process.env.VERCEL) {
       app.listen(port, () => {
         console.log(`QuickBooks MCP Server running on http://localhost:${port}`);
-        console.log(`SSE endpoint: http://localhost:${port}/sse`);
+        console.log(`MCP endpoint: http://localhost:${port}/mcp (legacy SSE: /sse)`);
+        if (!MCP_TOKEN_VERIFIER) {
+          console.log(
+            MCP_ALLOW_UNAUTHENTICATED
+              ? "WARNING: MCP endpoints accept unauthenticated requests (MCP_ALLOW_UNAUTHENTICATED=true)"
+              : "MCP endpoints are disabled until MCP_API_KEYS or MCP_OAUTH_INTROSPECTION_URL is set"
+          );
+        }
       });
+      startCdcPolling();
     }
     return;
   }
@@ -735,8 +4138,15 @@ async function main() {
   const server = createMcpServer();
   const transport = new StdioServerTransport();
   await server.connect(transport);
+  startCdcPolling();
   console.error(
-    "QuickBooks MCP server running with tools: get_customer_by_id, list_customers, search_customers, create_customer, update_customer, set_customer_active, get_customer_by_display_name"
+    "QuickBooks MCP server running with tools: list_companies, get_customer_by_id, list_customers, search_customers, create_customer, update_customer, set_customer_active, get_customer_by_display_name, " +
+      "get_invoice_by_id, search_invoices, create_invoice, update_invoice, send_invoice, void_invoice, get_invoice_pdf, " +
+      "list_open_invoices, record_payment, get_vendor_by_id, search_vendors, create_vendor, update_vendor, " +
+      "set_vendor_active, create_bill, search_bills, record_bill_payment, get_item_by_id, list_items, search_items, " +
+      "create_item, update_item, set_item_active, get_item_by_name, get_report, query_entities, count_entities, " +
+      "batch, bulk_create_customers, get_changes_since, sync_cache, list_recent_events, get_audit_log, " +
+      "find_duplicate_customers, merge_customers, export_customers, import_customers"
   );
 }
 
@@ -745,7 +4155,8 @@ let app: any = null;
 
 // Always create app for Vercel, but only load tokens in Vercel environment
 if (process.env.VERCEL) {
-  loadTokens();
+  ensureTokensLoaded().catch((err) => console.error("Token load failed:", err));
+  if (AUDIT_LOG_WARNING) console.warn(`[Audit] ${AUDIT_LOG_WARNING}`);
 }
 app = createExpressApp();
 
@@ -0,0 +1,201 @@
+// --- Intuit OAuth 2.0 ---
+//
+// Shared by the `auth` CLI command and the Express /auth + /callback routes. The state parameter is a
+// random nonce with an expiry, HMAC-signed with the client secret so any instance can verify it
+// (serverless), and single-use within a process. The web flow additionally binds the nonce to the
+// browser through a cookie.
+
+import crypto from "crypto";
+import fetch from "node-fetch";
+
+const AUTHORIZE_URL = "https://appcenter.intuit.com/connect/oauth2";
+const TOKEN_URL = "https://oauth.platform.intuit.com/oauth2/v1/tokens/bearer";
+const REVOKE_URL = "https://developer.api.intuit.com/v2/oauth2/tokens/revoke";
+const SCOPE = "com.intuit.quickbooks.accounting";
+
+// How long a user has to finish the consent screen
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+export const STATE_COOKIE = "qb_oauth_state";
+
+export type OAuthConfig = {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+};
+
+export type OAuthState = {
+  nonce: string;
+  exp: number;
+  // Optional alias to record for the company that gets connected
+  alias?: string;
+};
+
+export type OAuthCallbackResult = {
+  realmId: string;
+  tokens: Record<string, any>;
+  state: OAuthState;
+};
+
+/** Raised for a missing, forged, expired or replayed state, or a failed token exchange. */
+export class OAuthError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "OAuthError";
+  }
+}
+
+// Nonces already used in this process (pruned as they expire)
+const usedNonces = new Map<string, number>();
+
+function sign(config: OAuthConfig, payload: string): string {
+  return crypto.createHmac("sha256", config.clientSecret).update(payload).digest("base64url");
+}
+
+function basicAuth(config: OAuthConfig): string {
+  return "Basic " + Buffer.from(`${config.clientId}:${config.clientSecret}`).toString("base64");
+}
+
+/** Create a fresh signed state value. */
+export function createState(config: OAuthConfig, extra: { alias?: string } = {}): { state: string; nonce: string } {
+  const payload: OAuthState = {
+    nonce: crypto.randomBytes(16).toString("base64url"),
+    exp: Date.now() + STATE_TTL_MS,
+    ...(extra.alias ? { alias: extra.alias } : {}),
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return { state: `${encoded}.${sign(config, encoded)}`, nonce: payload.nonce };
+}
+
+/**
+ * Verify a state returned on the callback. When expectedNonce is given (cookie or CLI session)
+ * it must match as well. Each state is accepted once.
+ */
+export function verifyState(config: OAuthConfig, state: string | undefined, expectedNonce?: string): OAuthState {
+  if (!state) throw new OAuthError("Missing state parameter.");
+  const [encoded, signature] = state.split(".");
+  if (!encoded || !signature) throw new OAuthError("Malformed state parameter.");
+
+  const expected = Buffer.from(sign(config, encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    throw new OAuthError("Invalid state parameter.");
+  }
+
+  let payload: OAuthState;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+  } catch {
+    throw new OAuthError("Malformed state parameter.");
+  }
+
+  const now = Date.now();
+  if (!payload.exp || payload.exp < now) throw new OAuthError("Authorization request expired; start again.");
+  if (expectedNonce !== undefined && payload.nonce !== expectedNonce) {
+    throw new OAuthError("State does not belong to this browser session.");
+  }
+
+  for (const [nonce, exp] of usedNonces) if (exp < now) usedNonces.delete(nonce);
+  if (usedNonces.has(payload.nonce)) throw new OAuthError("Authorization response already used.");
+  usedNonces.set(payload.nonce, payload.exp);
+
+  return payload;
+}
+
+export function authorizeUrl(config: OAuthConfig, state: string): string {
+  const params = new URLSearchParams({
+    client_id: config.clientId,
+    redirect_uri: config.redirectUri,
+    response_type: "code",
+    scope: SCOPE,
+    state,
+  });
+  return `${AUTHORIZE_URL}?${params.toString()}`;
+}
+
+async function tokenRequest(config: OAuthConfig, body: URLSearchParams, what: string): Promise<Record<string, any>> {
+  const resp = await fetch(TOKEN_URL, {
+    method: "POST",
+    headers: {
+      Authorization: basicAuth(config),
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    },
+    body,
+  });
+
+  if (!resp.ok) {
+    const text = await resp.text();
+    throw new OAuthError(`${what} failed: ${resp.status} - ${text}`, resp.status === 400 ? 400 : 502);
+  }
+  return (await resp.json()) as Record<string, any>;
+}
+
+export function exchangeCode(config: OAuthConfig, code: string): Promise<Record<string, any>> {
+  return tokenRequest(
+    config,
+    new URLSearchParams({ grant_type: "authorization_code", code, redirect_uri: config.redirectUri }),
+    "Token exchange"
+  );
+}
+
+export function refreshAccessToken(config: OAuthConfig, refreshToken: string): Promise<Record<string, any>> {
+  return tokenRequest(
+    config,
+    new URLSearchParams({ grant_type: "refresh_token", refresh_token: refreshToken }),
+    "Token refresh"
+  );
+}
+
+/** Revoke a refresh (or access) token at Intuit; revoking the refresh token ends the connection. */
+export async function revokeToken(config: OAuthConfig, token: string): Promise<void> {
+  const resp = await fetch(REVOKE_URL, {
+    method: "POST",
+    headers: {
+      Authorization: basicAuth(config),
+      "Content-Type": "application/json",
+      Accept: "application/json",
+    },
+    body: JSON.stringify({ token }),
+  });
+  if (!resp.ok) {
+    const text = await resp.text();
+    throw new OAuthError(`Token revoke failed: ${resp.status} - ${text}`, 502);
+  }
+}
+
+/**
+ * Validate the callback query (error, state, code, realmId) and exchange the code for tokens.
+ */
+export async function handleCallback(
+  config: OAuthConfig,
+  query: Record<string, unknown>,
+  opts: { expectedNonce?: string; defaultRealmId?: string } = {}
+): Promise<OAuthCallbackResult> {
+  if (typeof query.error === "string") {
+    throw new OAuthError(`Authorization was not granted: ${query.error}`);
+  }
+  const state = verifyState(config, typeof query.state === "string" ? query.state : undefined, opts.expectedNonce);
+
+  const code = typeof query.code === "string" ? query.code : "";
+  if (!code) throw new OAuthError("No authorization code provided.");
+
+  const realmId = (typeof query.realmId === "string" && query.realmId) || opts.defaultRealmId;
+  if (!realmId) throw new OAuthError("No realmId returned by Intuit.");
+
+  const tokens = await exchangeCode(config, code);
+  return { realmId, tokens, state };
+}
+
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+/** Read a single cookie from a raw Cookie header. */
+export function readCookie(header: string | undefined, name: string): string | undefined {
+  for (const part of (header ?? "").split(";")) {
+    const [k, ...v] = part.trim().split("=");
+    if (k === name) return decodeURIComponent(v.join("="));
+  }
+  return undefined;
+}
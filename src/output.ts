@@ -0,0 +1,165 @@
+// --- Tool output shaping ---
+//
+// Raw QBO records carry a lot the model doesn't need (MetaData, domain, sparse, nested refs), and a
+// page of them can fill the context. Read tools pass their records through here: an optional field
+// projection or a summary of each entity's key fields, rendered as pretty JSON, compact JSON, a
+// markdown table or CSV, with the paging metadata alongside.
+
+import { getPath } from "./conflicts.js";
+import { toCsv } from "./csv.js";
+import { escapeMarkdownCell } from "./reports.js";
+
+export const OUTPUT_FORMATS = ["json", "compact", "markdown", "csv"] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export type OutputOptions = {
+  // Dotted paths such as PrimaryEmailAddr.Address; Id is always kept
+  fields?: string[];
+  summary?: boolean;
+  format?: OutputFormat;
+};
+
+// Key fields per entity for summary mode, and the default columns of tables
+export const SUMMARY_FIELDS: Record<string, string[]> = {
+  Customer: ["Id", "DisplayName", "CompanyName", "PrimaryEmailAddr.Address", "PrimaryPhone.FreeFormNumber", "Balance", "Active"],
+  Vendor: ["Id", "DisplayName", "CompanyName", "PrimaryEmailAddr.Address", "PrimaryPhone.FreeFormNumber", "Balance", "Active"],
+  Invoice: ["Id", "DocNumber", "CustomerRef", "TxnDate", "DueDate", "TotalAmt", "Balance", "EmailStatus"],
+  Bill: ["Id", "DocNumber", "VendorRef", "TxnDate", "DueDate", "TotalAmt", "Balance"],
+  Item: ["Id", "Name", "Sku", "Type", "UnitPrice", "QtyOnHand", "Active"],
+};
+
+// Present on every QBO record and meaningless to the caller
+const NOISE_FIELDS = new Set(["domain", "sparse"]);
+
+function setPath(obj: Record<string, any>, path: string, value: unknown) {
+  const keys = path.split(".");
+  let target = obj;
+  for (const key of keys.slice(0, -1)) target = target[key] ??= {};
+  target[keys[keys.length - 1]] = value;
+}
+
+const isEmpty = (v: unknown) =>
+  v === undefined ||
+  v === null ||
+  v === "" ||
+  (Array.isArray(v) && !v.length) ||
+  (typeof v === "object" && !Array.isArray(v) && !Object.keys(v as object).length);
+
+// Drop empty values at every level (compact output)
+function pruneEmpty(value: any): any {
+  if (Array.isArray(value)) return value.map(pruneEmpty);
+  if (!value || typeof value !== "object") return value;
+  const out: Record<string, any> = {};
+  for (const [k, v] of Object.entries(value)) {
+    const pruned = pruneEmpty(v);
+    if (!isEmpty(pruned)) out[k] = pruned;
+  }
+  return out;
+}
+
+/** The fields to keep for these options, or undefined for whole records. */
+export function outputFields(entity: string, opts: OutputOptions): string[] | undefined {
+  const fields = opts.fields?.length ? opts.fields : opts.summary ? SUMMARY_FIELDS[entity] : undefined;
+  if (!fields) return undefined;
+  return fields.includes("Id") ? fields : ["Id", ...fields];
+}
+
+/** Project and clean one record for JSON output. */
+export function shapeRecord(record: any, fields: string[] | undefined, compact = false): any {
+  let shaped: Record<string, any>;
+  if (fields) {
+    shaped = {};
+    for (const path of fields) {
+      const value = getPath(record, path);
+      if (value !== undefined) setPath(shaped, path, value);
+    }
+  } else {
+    shaped = Object.fromEntries(
+      Object.entries(record ?? {}).filter(([k]) => !NOISE_FIELDS.has(k) && !(compact && k === "MetaData"))
+    );
+  }
+  return compact ? pruneEmpty(shaped) : shaped;
+}
+
+// Table cell: references show their name, other objects their JSON
+function cellText(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value !== "object") return String(value);
+  const ref = value as { name?: string; value?: string };
+  if (!Array.isArray(value) && (ref.name !== undefined || ref.value !== undefined)) return String(ref.name ?? ref.value);
+  return JSON.stringify(value);
+}
+
+type TextContent = { type: "text"; text: string };
+
+function renderJson(value: unknown, compact: boolean): TextContent {
+  return { type: "text", text: compact ? JSON.stringify(value) : JSON.stringify(value, null, 2) };
+}
+
+// Markdown or CSV table of these columns (dotted paths)
+function renderTable(columns: string[], records: any[], format: "markdown" | "csv"): TextContent {
+  const rows = records.map((r) => columns.map((c) => cellText(getPath(r, c))));
+  const table =
+    format === "csv"
+      ? toCsv([columns, ...rows])
+      : [
+          `| ${columns.map(escapeMarkdownCell).join(" | ")} |`,
+          `| ${columns.map(() => "---").join(" | ")} |`,
+          ...rows.map((r) => `| ${r.map((c) => escapeMarkdownCell(c.replace(/\r?\n/g, " "))).join(" | ")} |`),
+        ].join("\n");
+  return { type: "text", text: table };
+}
+
+// Tables of entities show the requested fields, or the entity's summary fields
+const entityColumns = (entity: string, opts: OutputOptions) =>
+  outputFields(entity, opts) ?? SUMMARY_FIELDS[entity] ?? ["Id"];
+
+/**
+ * Render a list of records under `key` with `meta` (page, freshness, ...) alongside. Tables (markdown
+ * and CSV) use the requested fields or the entity's summary fields, and put meta in a second block.
+ */
+export function renderRecords(
+  key: string,
+  entity: string,
+  records: any[],
+  meta: Record<string, unknown>,
+  opts: OutputOptions = {}
+): { content: TextContent[] } {
+  const format = opts.format ?? "json";
+  if (format === "json" || format === "compact") {
+    const compact = format === "compact";
+    const fields = outputFields(entity, opts);
+    return { content: [renderJson({ [key]: records.map((r) => shapeRecord(r, fields, compact)), ...meta }, compact)] };
+  }
+  const table = renderTable(entityColumns(entity, opts), records, format);
+  return { content: [table, { type: "text", text: JSON.stringify(meta) }] };
+}
+
+/** Render a single record (or null when there is none) the same way; tables have one row. */
+export function renderRecord(entity: string, record: any, opts: OutputOptions = {}): { content: TextContent[] } {
+  const format = opts.format ?? "json";
+  if (format === "json" || format === "compact") {
+    const compact = format === "compact";
+    return { content: [renderJson(record ? shapeRecord(record, outputFields(entity, opts), compact) : null, compact)] };
+  }
+  return { content: [renderTable(entityColumns(entity, opts), record ? [record] : [], format)] };
+}
+
+/**
+ * Render rows that are not QuickBooks entities (e.g. change feed entries) under `key`: JSON as they
+ * are (compact drops empty values), tables with the given columns, meta alongside as for records.
+ */
+export function renderRows(
+  key: string,
+  rows: any[],
+  columns: string[],
+  meta: Record<string, unknown>,
+  format: OutputFormat = "json"
+): { content: TextContent[] } {
+  if (format === "json" || format === "compact") {
+    const compact = format === "compact";
+    return { content: [renderJson({ [key]: compact ? rows.map(pruneEmpty) : rows, ...meta }, compact)] };
+  }
+  return { content: [renderTable(columns, rows, format), { type: "text", text: JSON.stringify(meta) }] };
+}
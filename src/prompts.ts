@@ -0,0 +1,232 @@
+// --- Bookkeeping workflow prompts ---
+//
+// Builders for the MCP prompts registered in createMcpServer. Each takes live context already
+// fetched from QuickBooks (open documents, reports, candidate duplicates) and renders one user
+// message with the data embedded and the steps the model should follow.
+
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import type { DuplicateGroup } from "./duplicates.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const AGING_BUCKETS = ["Current", "1-30", "31-60", "61-90", "90+"] as const;
+
+export type AgingBucket = (typeof AGING_BUCKETS)[number];
+
+export function money(n: number | undefined): string {
+  return (n ?? 0).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+/** Days past due as of asOf (negative when not yet due); undated documents count as current. */
+export function daysOverdue(doc: { DueDate?: string; TxnDate?: string }, asOf: Date): number {
+  const due = Date.parse(doc.DueDate ?? doc.TxnDate ?? "");
+  return Number.isNaN(due) ? 0 : Math.floor((asOf.getTime() - due) / DAY_MS);
+}
+
+export function agingBucket(days: number): AgingBucket {
+  if (days <= 0) return "Current";
+  if (days <= 30) return "1-30";
+  if (days <= 60) return "31-60";
+  if (days <= 90) return "61-90";
+  return "90+";
+}
+
+/** Open balance per aging bucket for invoices or bills. */
+export function agingSummary(docs: any[], asOf: Date): Record<AgingBucket, number> {
+  const totals = Object.fromEntries(AGING_BUCKETS.map((b) => [b, 0])) as Record<AgingBucket, number>;
+  for (const doc of docs) totals[agingBucket(daysOverdue(doc, asOf))] += Number(doc.Balance ?? 0);
+  return totals;
+}
+
+function agingTable(totals: Record<AgingBucket, number>): string {
+  return [
+    `| ${AGING_BUCKETS.join(" | ")} |`,
+    `| ${AGING_BUCKETS.map(() => "---").join(" | ")} |`,
+    `| ${AGING_BUCKETS.map((b) => money(totals[b])).join(" | ")} |`,
+  ].join("\n");
+}
+
+function docTable(docs: any[], asOf: Date, kind: "Invoice" | "Bill"): string {
+  if (!docs.length) return `_No open ${kind.toLowerCase()}s._`;
+  const lines = [
+    `| ${kind} Id | Doc # | Date | Due | Days overdue | Total | Balance |`,
+    "| --- | --- | --- | --- | --- | --- | --- |",
+  ];
+  for (const d of docs) {
+    const days = daysOverdue(d, asOf);
+    lines.push(
+      `| ${d.Id} | ${d.DocNumber ?? ""} | ${d.TxnDate ?? ""} | ${d.DueDate ?? ""} | ${Math.max(days, 0)} | ` +
+        `${money(d.TotalAmt)} | ${money(d.Balance)} |`
+    );
+  }
+  return lines.join("\n");
+}
+
+function userPrompt(description: string, text: string): GetPromptResult {
+  return { description, messages: [{ role: "user", content: { type: "text", text } }] };
+}
+
+export type CollectionsContext = {
+  customer: any;
+  openInvoices: any[];
+  recentPayments: any[];
+  asOf: Date;
+  tone?: string;
+};
+
+export function collectionsPrompt(ctx: CollectionsContext): GetPromptResult {
+  const { customer, openInvoices, recentPayments, asOf } = ctx;
+  const aging = agingSummary(openInvoices, asOf);
+  const total = openInvoices.reduce((sum, i) => sum + Number(i.Balance ?? 0), 0);
+  const payments = recentPayments.length
+    ? recentPayments.map((p) => `- ${p.TxnDate}: ${money(p.TotalAmt)}${p.PaymentRefNum ? ` (ref ${p.PaymentRefNum})` : ""}`).join("\n")
+    : "_No payments on record._";
+
+  const text = `You are following up on overdue receivables for a QuickBooks customer. Use the data below (as of ${asOf.toISOString().slice(0, 10)}).
+
+## Customer
+- Name: ${customer.DisplayName} (Id ${customer.Id})
+- Email: ${customer.PrimaryEmailAddr?.Address ?? "none on file"}
+- Phone: ${customer.PrimaryPhone?.FreeFormNumber ?? "none on file"}
+- Open balance: ${money(total)} across ${openInvoices.length} invoice(s)
+
+## Aging
+${agingTable(aging)}
+
+## Open invoices (oldest due first)
+${docTable(openInvoices, asOf, "Invoice")}
+
+## Recent payments
+${payments}
+
+## Steps
+1. Summarize what is owed and how overdue it is, oldest first.
+2. Draft a follow-up email to the customer${ctx.tone ? ` in a ${ctx.tone} tone` : ""}: list each overdue invoice with its number, due date and balance, give the total, and ask for payment or a payment date. Escalate the wording for anything over 60 days.
+3. Recommend next actions (resend invoices with send_invoice, a call, a payment plan or a credit hold) and say which invoices they apply to.
+Do not change anything in QuickBooks without confirmation.`;
+
+  return userPrompt(`Collections follow-up for ${customer.DisplayName}`, text);
+}
+
+export type MonthEndContext = {
+  period: string;
+  startDate: string;
+  endDate: string;
+  profitAndLoss: string;
+  balanceSheet: string;
+  receivablesAging: string;
+  payablesAging: string;
+  unsentInvoices: number;
+  openBillsDue: number;
+};
+
+export function monthEndPrompt(ctx: MonthEndContext): GetPromptResult {
+  const text = `Walk me through the month-end close for ${ctx.period} (${ctx.startDate} to ${ctx.endDate}) using the QuickBooks data below.
+
+## Profit and loss
+${ctx.profitAndLoss}
+
+## Balance sheet as of ${ctx.endDate}
+${ctx.balanceSheet}
+
+## Receivables aging
+${ctx.receivablesAging}
+
+## Payables aging
+${ctx.payablesAging}
+
+## Signals
+- Invoices dated in the period that have not been emailed: ${ctx.unsentInvoices}
+- Open bills due on or before ${ctx.endDate}: ${ctx.openBillsDue}
+
+## Checklist
+Work through each item, marking it done, needing attention (with the figures that show why) or needing information from me:
+1. Revenue: invoices for the period are complete and sent; unusual swings against typical months.
+2. Receivables: overdue balances, customers to chase, possible bad debt.
+3. Payables: bills entered and due bills scheduled for payment.
+4. Bank and credit card accounts reconciled through ${ctx.endDate} (ask me to confirm).
+5. Accruals, prepaid expenses and depreciation entries.
+6. Balance sheet sanity: negative balances, suspense or uncategorized accounts, undeposited funds.
+7. Anything that should be reviewed before closing the books for the period.
+Finish with a short summary of open items. Do not post entries without confirmation.`;
+
+  return userPrompt(`Month-end close checklist for ${ctx.period}`, text);
+}
+
+export type VendorStatementContext = {
+  vendor: any;
+  openBills: any[];
+  recentPayments: any[];
+  asOf: Date;
+  statementBalance?: string;
+  statementText?: string;
+};
+
+export function vendorStatementPrompt(ctx: VendorStatementContext): GetPromptResult {
+  const { vendor, openBills, recentPayments, asOf } = ctx;
+  const total = openBills.reduce((sum, b) => sum + Number(b.Balance ?? 0), 0);
+  const payments = recentPayments.length
+    ? recentPayments.map((p) => `- ${p.TxnDate}: ${money(p.TotalAmt)} (${p.PayType ?? "payment"}, Id ${p.Id})`).join("\n")
+    : "_No bill payments in the last 90 days._";
+
+  const text = `Reconcile a vendor statement against QuickBooks for ${vendor.DisplayName} (Id ${vendor.Id}).
+
+## QuickBooks
+- Vendor balance: ${money(vendor.Balance)}
+- Open bills total: ${money(total)} across ${openBills.length} bill(s)
+
+### Aging
+${agingTable(agingSummary(openBills, asOf))}
+
+### Open bills
+${docTable(openBills, asOf, "Bill")}
+
+### Bill payments (last 90 days)
+${payments}
+
+## Vendor statement
+- Statement balance: ${ctx.statementBalance ?? "not given"}
+${ctx.statementText ? `\n\`\`\`\n${ctx.statementText}\n\`\`\`\n` : "_Statement lines not provided; ask me for them if needed._"}
+
+## Steps
+1. Match statement lines to bills and payments by document number, date and amount.
+2. List items on the statement missing from QuickBooks, items in QuickBooks missing from the statement, and amount mismatches.
+3. Explain the difference between the statement balance and the QuickBooks balance as the sum of those items, including timing differences such as payments in transit.
+4. Propose corrections (bills to enter with create_bill, payments to record with record_bill_payment, questions for the vendor). Do not change anything without confirmation.`;
+
+  return userPrompt(`Reconcile vendor statement for ${vendor.DisplayName}`, text);
+}
+
+export type DuplicateCleanupContext = {
+  groups: DuplicateGroup[];
+  scanned: number;
+};
+
+export function duplicateCleanupPrompt(ctx: DuplicateCleanupContext): GetPromptResult {
+  const sections = ctx.groups.map((g, i) => {
+    const rows = g.customers.map(
+      (c) =>
+        `| ${c.Id}${c.Id === g.suggestedSurvivorId ? " (keep?)" : ""} | ${c.DisplayName} | ${c.CompanyName ?? ""} | ${c.PrimaryEmailAddr?.Address ?? ""} | ` +
+        `${c.PrimaryPhone?.FreeFormNumber ?? ""} | ${money(c.Balance)} | ${c.MetaData?.CreateTime?.slice(0, 10) ?? ""} |`
+    );
+    return [
+      `### Group ${i + 1}: score ${g.score} (${[...new Set(g.matches.flatMap((m) => m.reasons))].join(", ")})`,
+      "| Id | Display name | Company | Email | Phone | Balance | Created |",
+      "| --- | --- | --- | --- | --- | --- | --- |",
+      ...rows,
+    ].join("\n");
+  });
+
+  const text = `Help me clean up duplicate customers in QuickBooks. I scanned ${ctx.scanned} active customers and found ${ctx.groups.length} group(s) of likely duplicates.
+
+${sections.join("\n\n") || "_No likely duplicates found._"}
+
+## Steps
+1. For each group, decide whether the records are really the same customer; say why (or why not).
+2. For true duplicates, pick the record to keep. The suggested one (marked "keep?") has the open balance or the most complete details.
+3. Give the plan as a table: keep Id, retire Id(s), fields that will be copied, open transactions to move.
+4. Preview each merge with merge_customers and dryRun: it copies missing contact fields to the kept record and deactivates the others; QuickBooks does not allow deleting customers. Records with open transactions are not deactivated until those are moved.
+Wait for my confirmation before making any change.`;
+
+  return userPrompt("Clean up duplicate customers", text);
+}
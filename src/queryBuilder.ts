@@ -0,0 +1,355 @@
+// --- QuickBooks query builder ---
+//
+// Builds QBO query-language statements from structured input instead of string concatenation.
+// Every entity has a whitelist of filterable/sortable fields with a value type, so values are
+// validated and literals escaped before they reach the query endpoint.
+
+import crypto from "crypto";
+
+export type FieldType = "string" | "number" | "boolean" | "date" | "datetime" | "ref";
+
+const METADATA_FIELDS: Record<string, FieldType> = {
+  "Metadata.CreateTime": "datetime",
+  "Metadata.LastUpdatedTime": "datetime",
+};
+
+export const ENTITY_FIELDS = {
+  Customer: {
+    Id: "ref",
+    DisplayName: "string",
+    CompanyName: "string",
+    GivenName: "string",
+    MiddleName: "string",
+    FamilyName: "string",
+    FullyQualifiedName: "string",
+    "PrimaryEmailAddr.Address": "string",
+    "PrimaryPhone.FreeFormNumber": "string",
+    Active: "boolean",
+    Job: "boolean",
+    ParentRef: "ref",
+    Balance: "number",
+    ...METADATA_FIELDS,
+  },
+  Vendor: {
+    Id: "ref",
+    DisplayName: "string",
+    CompanyName: "string",
+    GivenName: "string",
+    MiddleName: "string",
+    FamilyName: "string",
+    "PrimaryEmailAddr.Address": "string",
+    "PrimaryPhone.FreeFormNumber": "string",
+    Active: "boolean",
+    Vendor1099: "boolean",
+    Balance: "number",
+    ...METADATA_FIELDS,
+  },
+  Item: {
+    Id: "ref",
+    Name: "string",
+    FullyQualifiedName: "string",
+    Sku: "string",
+    Type: "string",
+    Active: "boolean",
+    Taxable: "boolean",
+    UnitPrice: "number",
+    QtyOnHand: "number",
+    ParentRef: "ref",
+    ...METADATA_FIELDS,
+  },
+  Invoice: {
+    Id: "ref",
+    DocNumber: "string",
+    TxnDate: "date",
+    DueDate: "date",
+    CustomerRef: "ref",
+    Balance: "number",
+    TotalAmt: "number",
+    EmailStatus: "string",
+    ...METADATA_FIELDS,
+  },
+  Estimate: {
+    Id: "ref",
+    DocNumber: "string",
+    TxnDate: "date",
+    ExpirationDate: "date",
+    CustomerRef: "ref",
+    TotalAmt: "number",
+    ...METADATA_FIELDS,
+  },
+  SalesReceipt: {
+    Id: "ref",
+    DocNumber: "string",
+    TxnDate: "date",
+    CustomerRef: "ref",
+    Balance: "number",
+    TotalAmt: "number",
+    ...METADATA_FIELDS,
+  },
+  CreditMemo: {
+    Id: "ref",
+    DocNumber: "string",
+    TxnDate: "date",
+    CustomerRef: "ref",
+    Balance: "number",
+    TotalAmt: "number",
+    ...METADATA_FIELDS,
+  },
+  Payment: {
+    Id: "ref",
+    TxnDate: "date",
+    CustomerRef: "ref",
+    TotalAmt: "number",
+    PaymentRefNum: "string",
+    ...METADATA_FIELDS,
+  },
+  Bill: {
+    Id: "ref",
+    DocNumber: "string",
+    TxnDate: "date",
+    DueDate: "date",
+    VendorRef: "ref",
+    APAccountRef: "ref",
+    Balance: "number",
+    TotalAmt: "number",
+    ...METADATA_FIELDS,
+  },
+  BillPayment: {
+    Id: "ref",
+    DocNumber: "string",
+    TxnDate: "date",
+    VendorRef: "ref",
+    PayType: "string",
+    TotalAmt: "number",
+    ...METADATA_FIELDS,
+  },
+  Account: {
+    Id: "ref",
+    Name: "string",
+    FullyQualifiedName: "string",
+    AccountType: "string",
+    AccountSubType: "string",
+    Classification: "string",
+    Active: "boolean",
+    CurrentBalance: "number",
+    ...METADATA_FIELDS,
+  },
+} satisfies Record<string, Record<string, FieldType>>;
+
+export type QueryEntity = keyof typeof ENTITY_FIELDS;
+
+export const QUERY_ENTITIES = Object.keys(ENTITY_FIELDS) as [QueryEntity, ...QueryEntity[]];
+
+export const QUERY_OPERATORS = ["=", "<", ">", "<=", ">=", "IN", "LIKE"] as const;
+
+export type QueryOperator = (typeof QUERY_OPERATORS)[number];
+
+export type QueryValue = string | number | boolean;
+
+export type QueryFilter = {
+  field: string;
+  op: QueryOperator;
+  value: QueryValue | QueryValue[];
+};
+
+export type QuerySort = {
+  field: string;
+  dir?: "ASC" | "DESC";
+};
+
+export type QuerySpec = {
+  entity: QueryEntity;
+  // Projection; omitted means SELECT *
+  select?: string[];
+  where?: QueryFilter[];
+  orderBy?: QuerySort | QuerySort[];
+  startPosition?: number;
+  maxResults?: number;
+};
+
+// QBO caps a single query page at 1000 rows
+export const MAX_PAGE_SIZE = 1000;
+
+/** Raised when a structured query references an unknown field or carries an invalid value. */
+export class QueryValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QueryValidationError";
+  }
+}
+
+/** Escape a string for use inside a single-quoted QBO literal. */
+export function escapeLiteral(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/'/g, "\\'");
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME_RE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+function fieldType(entity: QueryEntity, field: string): FieldType {
+  const fields: Record<string, FieldType> = ENTITY_FIELDS[entity];
+  // Own keys only: "constructor" or "toString" must not pass the whitelist
+  const type = Object.hasOwn(fields, field) ? fields[field] : undefined;
+  if (!type) {
+    throw new QueryValidationError(
+      `Field "${field}" is not queryable on ${entity}. Allowed: ${Object.keys(fields).join(", ")}`
+    );
+  }
+  return type;
+}
+
+function formatValue(entity: QueryEntity, field: string, type: FieldType, value: QueryValue): string {
+  switch (type) {
+    case "boolean":
+      if (typeof value !== "boolean") {
+        throw new QueryValidationError(`${entity}.${field} expects a boolean`);
+      }
+      return value ? "true" : "false";
+    case "number": {
+      const n = typeof value === "string" ? Number(value) : value;
+      if (typeof n !== "number" || !Number.isFinite(n)) {
+        throw new QueryValidationError(`${entity}.${field} expects a number`);
+      }
+      return `'${n}'`;
+    }
+    case "date":
+      if (typeof value !== "string" || !DATE_RE.test(value)) {
+        throw new QueryValidationError(`${entity}.${field} expects a date (YYYY-MM-DD)`);
+      }
+      return `'${value}'`;
+    case "datetime":
+      if (typeof value !== "string" || !DATETIME_RE.test(value)) {
+        throw new QueryValidationError(`${entity}.${field} expects an ISO-8601 date-time`);
+      }
+      return `'${value}'`;
+    default:
+      if (typeof value === "boolean") {
+        throw new QueryValidationError(`${entity}.${field} expects a string`);
+      }
+      return `'${escapeLiteral(String(value))}'`;
+  }
+}
+
+function buildCondition(entity: QueryEntity, filter: QueryFilter): string {
+  const type = fieldType(entity, filter.field);
+
+  if (filter.op === "IN") {
+    const values = Array.isArray(filter.value) ? filter.value : [filter.value];
+    if (!values.length) {
+      throw new QueryValidationError(`IN on ${entity}.${filter.field} needs at least one value`);
+    }
+    return `${filter.field} IN (${values.map((v) => formatValue(entity, filter.field, type, v)).join(", ")})`;
+  }
+
+  if (Array.isArray(filter.value)) {
+    throw new QueryValidationError(`Operator ${filter.op} on ${entity}.${filter.field} takes a single value`);
+  }
+
+  if (filter.op === "LIKE" && type !== "string") {
+    throw new QueryValidationError(`LIKE is only supported on text fields, not ${entity}.${filter.field}`);
+  }
+
+  if (type === "boolean" && filter.op !== "=") {
+    throw new QueryValidationError(`${entity}.${filter.field} only supports =`);
+  }
+
+  return `${filter.field} ${filter.op} ${formatValue(entity, filter.field, type, filter.value)}`;
+}
+
+function assertEntity(entity: QueryEntity) {
+  if (!Object.hasOwn(ENTITY_FIELDS, entity)) {
+    throw new QueryValidationError(`Unsupported entity "${entity}". Allowed: ${QUERY_ENTITIES.join(", ")}`);
+  }
+}
+
+function buildWhere(spec: QuerySpec): string {
+  const conditions = (spec.where ?? []).map((f) => buildCondition(spec.entity, f));
+  return conditions.length ? ` WHERE ${conditions.join(" AND ")}` : "";
+}
+
+/** Build a validated QBO query statement from a structured spec. */
+export function buildQuery(spec: QuerySpec): string {
+  const { entity } = spec;
+  assertEntity(entity);
+
+  let projection = "*";
+  if (spec.select?.length) {
+    // Id is needed to act on any row, so always keep it
+    const cols = Array.from(new Set(["Id", ...spec.select]));
+    cols.forEach((c) => fieldType(entity, c));
+    projection = cols.join(", ");
+  }
+
+  let sql = `SELECT ${projection} FROM ${entity}${buildWhere(spec)}`;
+
+  const sorts = spec.orderBy ? (Array.isArray(spec.orderBy) ? spec.orderBy : [spec.orderBy]) : [];
+  if (sorts.length) {
+    const parts = sorts.map((s) => {
+      fieldType(entity, s.field);
+      return `${s.field} ${s.dir ?? "ASC"}`;
+    });
+    sql += ` ORDER BY ${parts.join(", ")}`;
+  }
+
+  if (spec.startPosition !== undefined) {
+    if (!Number.isInteger(spec.startPosition) || spec.startPosition < 1) {
+      throw new QueryValidationError("startPosition must be an integer >= 1");
+    }
+    sql += ` STARTPOSITION ${spec.startPosition}`;
+  }
+  if (spec.maxResults !== undefined) {
+    if (!Number.isInteger(spec.maxResults) || spec.maxResults < 1 || spec.maxResults > MAX_PAGE_SIZE) {
+      throw new QueryValidationError(`maxResults must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+    }
+    sql += ` MAXRESULTS ${spec.maxResults}`;
+  }
+
+  return sql;
+}
+
+/** Build the matching SELECT COUNT(*) statement (projection, ordering and paging are ignored). */
+export function buildCountQuery(spec: QuerySpec): string {
+  assertEntity(spec.entity);
+  return `SELECT COUNT(*) FROM ${spec.entity}${buildWhere(spec)}`;
+}
+
+// --- Continuation cursors ---
+//
+// A cursor carries the next STARTPOSITION and page size plus a fingerprint of the query it came
+// from, so it cannot be replayed against a different entity or filter set.
+
+type CursorPayload = { q: string; s: number; m: number };
+
+function queryFingerprint(spec: QuerySpec): string {
+  const sql = buildQuery({ ...spec, startPosition: undefined, maxResults: undefined });
+  return crypto.createHash("sha256").update(sql).digest("base64url").slice(0, 16);
+}
+
+export function encodeCursor(spec: QuerySpec, startPosition: number, maxResults: number): string {
+  const payload: CursorPayload = { q: queryFingerprint(spec), s: startPosition, m: maxResults };
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+/** Decode a cursor and check it belongs to this query; returns the paging it encodes. */
+export function decodeCursor(cursor: string, spec: QuerySpec): { startPosition: number; maxResults: number } {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new QueryValidationError("Malformed cursor");
+  }
+  if (
+    !payload ||
+    !Number.isInteger(payload.s) ||
+    payload.s < 1 ||
+    !Number.isInteger(payload.m) ||
+    payload.m < 1 ||
+    payload.m > MAX_PAGE_SIZE
+  ) {
+    throw new QueryValidationError("Malformed cursor");
+  }
+  if (payload.q !== queryFingerprint(spec)) {
+    throw new QueryValidationError("Cursor does not match this query; repeat the request with the same filters");
+  }
+  return { startPosition: payload.s, maxResults: payload.m };
+}
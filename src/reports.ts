@@ -0,0 +1,99 @@
+// --- QuickBooks Reports API rendering ---
+//
+// Report responses are a tree: Rows.Row[] where each row is either a Data row (ColData) or a
+// Section with its own Header, nested Rows and a Summary. These helpers flatten that tree into
+// a plain table so it can be shown as markdown or CSV instead of raw JSON.
+
+import { toCsv } from "./csv.js";
+
+export const REPORT_NAMES = [
+  "ProfitAndLoss",
+  "BalanceSheet",
+  "CashFlow",
+  "AgedReceivables",
+  "AgedPayables",
+  "CustomerBalance",
+  "TrialBalance",
+] as const;
+
+export type ReportName = (typeof REPORT_NAMES)[number];
+
+export type FlatReport = {
+  title: string;
+  meta: Record<string, string>;
+  columns: string[];
+  rows: string[][];
+};
+
+// Indent nested section rows in the first column so the hierarchy stays readable
+const INDENT = "  ";
+
+function colValues(colData: any[] | undefined): string[] {
+  return (colData ?? []).map((c) => (c?.value ?? "").toString());
+}
+
+function withIndent(values: string[], depth: number): string[] {
+  if (!values.length) return values;
+  const [first, ...rest] = values;
+  return [INDENT.repeat(depth) + first, ...rest];
+}
+
+function flattenRows(rows: any[] | undefined, depth: number, out: string[][]) {
+  for (const row of rows ?? []) {
+    if (row.Header?.ColData) out.push(withIndent(colValues(row.Header.ColData), depth));
+    if (row.ColData) out.push(withIndent(colValues(row.ColData), depth));
+    if (row.Rows?.Row) flattenRows(row.Rows.Row, depth + 1, out);
+    if (row.Summary?.ColData) out.push(withIndent(colValues(row.Summary.ColData), depth));
+  }
+}
+
+/** Flatten a QBO report response into header metadata, column titles and rows. */
+export function flattenReport(report: any): FlatReport {
+  const header = report?.Header ?? {};
+  const meta: Record<string, string> = {};
+  if (header.StartPeriod) meta.StartPeriod = header.StartPeriod;
+  if (header.EndPeriod) meta.EndPeriod = header.EndPeriod;
+  if (header.ReportBasis) meta.ReportBasis = header.ReportBasis;
+  if (header.SummarizeColumnsBy) meta.SummarizeColumnsBy = header.SummarizeColumnsBy;
+  if (header.Currency) meta.Currency = header.Currency;
+  for (const opt of header.Option ?? []) {
+    // NoReportData=true is how QBO signals an empty report
+    if (opt?.Name === "NoReportData") meta.NoReportData = String(opt.Value);
+  }
+
+  const columns = (report?.Columns?.Column ?? []).map((c: any) => c.ColTitle || c.ColType || "");
+  const rows: string[][] = [];
+  flattenRows(report?.Rows?.Row, 0, rows);
+
+  return { title: header.ReportName ?? "Report", meta, columns, rows };
+}
+
+export function escapeMarkdownCell(value: string): string {
+  // Keep leading indentation visible: markdown collapses plain spaces
+  const indented = value.replace(/^( +)/, (m) => "\u00a0".repeat(m.length));
+  return indented.replace(/\|/g, "\\|");
+}
+
+export function reportToMarkdown(flat: FlatReport): string {
+  const lines: string[] = [`## ${flat.title}`];
+  const metaLine = Object.entries(flat.meta)
+    .map(([k, v]) => `${k}: ${v}`)
+    .join(" · ");
+  if (metaLine) lines.push("", metaLine);
+  lines.push("");
+
+  const width = Math.max(flat.columns.length, ...flat.rows.map((r) => r.length), 1);
+  const pad = (r: string[]) => [...r, ...Array(width - r.length).fill("")];
+  const header = pad(flat.columns.length ? flat.columns : [""]);
+
+  lines.push(`| ${header.map(escapeMarkdownCell).join(" | ")} |`);
+  lines.push(`| ${header.map((_, i) => (i === 0 ? "---" : "---:")).join(" | ")} |`);
+  for (const row of flat.rows) {
+    lines.push(`| ${pad(row).map(escapeMarkdownCell).join(" | ")} |`);
+  }
+  return lines.join("\n");
+}
+
+export function reportToCsv(flat: FlatReport): string {
+  return toCsv([flat.columns, ...flat.rows]);
+}
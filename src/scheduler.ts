@@ -0,0 +1,145 @@
+// --- Request scheduling and retries ---
+//
+// QBO throttles per realm (about 500 requests/minute and 10 concurrent requests). RequestScheduler
+// queues calls per key (realm) under a concurrency cap and a sliding one-minute rate window;
+// withRetry re-runs throttled or transiently failed calls with exponential backoff and jitter.
+
+export type SchedulerOptions = {
+  maxConcurrent: number;
+  requestsPerMinute: number;
+};
+
+type Lane = {
+  active: number;
+  // Start times within the current one-minute window
+  starts: number[];
+  waiters: Array<() => void>;
+  timer?: NodeJS.Timeout;
+};
+
+const WINDOW_MS = 60 * 1000;
+
+export class RequestScheduler {
+  private readonly lanes = new Map<string, Lane>();
+
+  constructor(private readonly options: SchedulerOptions) {}
+
+  /** Run task once the lane for key has a free slot within both limits. */
+  async schedule<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const lane = this.lane(key);
+    await new Promise<void>((resolve) => {
+      lane.waiters.push(resolve);
+      this.pump(key, lane);
+    });
+    try {
+      return await task();
+    } finally {
+      lane.active--;
+      this.pump(key, lane);
+    }
+  }
+
+  /** Current queue depth and usage per key, for diagnostics. */
+  stats(key: string) {
+    const lane = this.lanes.get(key);
+    return {
+      active: lane?.active ?? 0,
+      queued: lane?.waiters.length ?? 0,
+      startedLastMinute: lane ? lane.starts.filter((t) => t > Date.now() - WINDOW_MS).length : 0,
+    };
+  }
+
+  private lane(key: string): Lane {
+    let lane = this.lanes.get(key);
+    if (!lane) {
+      lane = { active: 0, starts: [], waiters: [] };
+      this.lanes.set(key, lane);
+    }
+    return lane;
+  }
+
+  private pump(key: string, lane: Lane) {
+    const now = Date.now();
+    while (lane.starts.length && lane.starts[0] <= now - WINDOW_MS) lane.starts.shift();
+
+    while (
+      lane.waiters.length &&
+      lane.active < this.options.maxConcurrent &&
+      lane.starts.length < this.options.requestsPerMinute
+    ) {
+      lane.active++;
+      lane.starts.push(now);
+      lane.waiters.shift()!();
+    }
+
+    // Rate-limited with work waiting: wake up when the oldest start leaves the window
+    if (lane.waiters.length && lane.starts.length >= this.options.requestsPerMinute && !lane.timer) {
+      const delay = lane.starts[0] + WINDOW_MS - now;
+      lane.timer = setTimeout(() => {
+        lane.timer = undefined;
+        this.pump(key, lane);
+      }, Math.max(delay, 1));
+      lane.timer.unref?.();
+    }
+
+    if (!lane.active && !lane.waiters.length && !lane.starts.length) this.lanes.delete(key);
+  }
+}
+
+/** A failure worth retrying (429, 5xx, network). retryAfterMs comes from a Retry-After header. */
+export class RetryableError extends Error {
+  constructor(message: string, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = "RetryableError";
+  }
+}
+
+export type RetryOptions = {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // False when a repeat could apply a write twice (e.g. a POST without requestid)
+  canRetry?: boolean;
+  onRetry?: (err: Error, attempt: number, delayMs: number) => void;
+};
+
+type RetryHint = Error & { retryAfterMs?: number };
+
+// RetryableError, or any error flagged retryable (e.g. a QuickBooksError for a 429/503)
+function asRetryable(err: unknown): RetryHint | null {
+  if (err instanceof RetryableError) return err;
+  if (err instanceof Error && (err as { retryable?: boolean }).retryable === true) return err;
+  return null;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Exponential backoff with full jitter, never shorter than the server's Retry-After. */
+export function backoffDelay(attempt: number, opts: Pick<RetryOptions, "baseDelayMs" | "maxDelayMs">, retryAfterMs?: number) {
+  const ceiling = Math.min(opts.maxDelayMs, opts.baseDelayMs * 2 ** attempt);
+  const jittered = Math.random() * ceiling;
+  return Math.max(jittered, retryAfterMs ?? 0);
+}
+
+export async function withRetry<T>(fn: () => Promise<T>, opts: RetryOptions): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      const retryable = asRetryable(err);
+      if (!retryable || opts.canRetry === false || attempt >= opts.retries) throw err;
+      const delay = backoffDelay(attempt, opts, retryable.retryAfterMs);
+      opts.onRetry?.(retryable, attempt + 1, delay);
+      await sleep(delay);
+    }
+  }
+}
+
+/** Parse a Retry-After header (seconds or HTTP date) into milliseconds. */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
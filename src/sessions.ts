@@ -0,0 +1,160 @@
+// --- Streamable HTTP sessions ---
+//
+// MCP sessions on /mcp are recorded in a key-value store (who owns them, when they were last used)
+// together with the messages sent on their SSE streams. Another instance, or this one after a
+// restart, can then pick a session up again, and a client that reconnects with Last-Event-ID gets
+// the messages it missed.
+
+import type { EventStore } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { InitializeRequest, JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import {
+  FileKeyValueClient,
+  HttpKeyValueClient,
+  KeyValueClient,
+  MemoryKeyValueClient,
+} from "./tokenStore.js";
+
+// Messages kept per session for replay; older ones cannot be resumed
+const MAX_EVENTS_PER_SESSION = 200;
+
+// Don't rewrite the session record on every request
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+// The SDK's stream id for the session's standalone GET stream
+const STANDALONE_STREAM_ID = "_GET_stream";
+
+export type SessionRecord = {
+  id: string;
+  // AuthInfo.clientId of the caller that opened the session; only it may use the session
+  owner: string;
+  createdAt: string;
+  lastSeenAt: string;
+  // The client's initialize params, replayed to set up the session on another instance
+  initialize?: InitializeRequest["params"];
+};
+
+type StoredEvent = { id: string; streamId: string; message: JSONRPCMessage };
+
+/** Session records and their replayable events, expiring after ttlMs without use. */
+export class SessionStore {
+  constructor(
+    private readonly client: KeyValueClient,
+    readonly kind: string,
+    readonly ttlMs: number,
+    private readonly prefix = "quickbooks-mcp:session"
+  ) {}
+
+  private key(id: string) {
+    return `${this.prefix}:${id}`;
+  }
+
+  eventsKey(id: string) {
+    return `${this.prefix}:${id}:events`;
+  }
+
+  async create(id: string, owner: string, initialize?: InitializeRequest["params"]): Promise<SessionRecord> {
+    const now = new Date().toISOString();
+    const record = { id, owner, createdAt: now, lastSeenAt: now, ...(initialize ? { initialize } : {}) };
+    await this.client.set(this.key(id), JSON.stringify(record));
+    return record;
+  }
+
+  /** The session, or undefined when unknown or expired (expired ones are removed). */
+  async get(id: string): Promise<SessionRecord | undefined> {
+    const raw = await this.client.get(this.key(id));
+    if (!raw) return undefined;
+    const record: SessionRecord = JSON.parse(raw);
+    if (this.expired(record)) {
+      await this.delete(id);
+      return undefined;
+    }
+    return record;
+  }
+
+  expired(record: SessionRecord, now = Date.now()): boolean {
+    return now - Date.parse(record.lastSeenAt) > this.ttlMs;
+  }
+
+  /** Mark the session used; writes at most once a minute. */
+  async touch(record: SessionRecord): Promise<void> {
+    if (Date.now() - Date.parse(record.lastSeenAt) < TOUCH_INTERVAL_MS) return;
+    record.lastSeenAt = new Date().toISOString();
+    await this.client.set(this.key(record.id), JSON.stringify(record));
+  }
+
+  async delete(id: string): Promise<void> {
+    await Promise.all([this.client.delete(this.key(id)), this.client.delete(this.eventsKey(id))]);
+  }
+
+  eventStore(sessionId: string): EventStore {
+    return new SessionEventStore(this.client, this.eventsKey(sessionId));
+  }
+}
+
+/**
+ * EventStore for one session: the last MAX_EVENTS_PER_SESSION messages across its streams, under a
+ * single key. Event ids are a per-session sequence number. Writes from this process are serialized;
+ * two instances writing the same session at once could drop an event from the replay buffer.
+ */
+class SessionEventStore implements EventStore {
+  private tail: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly client: KeyValueClient,
+    private readonly key: string
+  ) {}
+
+  private async load(): Promise<StoredEvent[]> {
+    const raw = await this.client.get(this.key);
+    return raw ? JSON.parse(raw) : [];
+  }
+
+  storeEvent(streamId: string, message: JSONRPCMessage): Promise<string> {
+    const next = this.tail.then(async () => {
+      const events = await this.load();
+      const id = String(Number(events.at(-1)?.id ?? 0) + 1);
+      events.push({ id, streamId, message });
+      await this.client.set(this.key, JSON.stringify(events.slice(-MAX_EVENTS_PER_SESSION)));
+      return id;
+    });
+    this.tail = next.catch(() => undefined);
+    return next;
+  }
+
+  async replayEventsAfter(
+    lastEventId: string,
+    { send }: { send: (eventId: string, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<string> {
+    const events = await this.load();
+    const index = events.findIndex((e) => e.id === lastEventId);
+    // Unknown or already evicted: nothing to replay, carry on as the session's notification stream
+    if (index < 0) return STANDALONE_STREAM_ID;
+    const { streamId } = events[index];
+    for (const event of events.slice(index + 1)) {
+      if (event.streamId === streamId) await send(event.id, event.message);
+    }
+    return streamId;
+  }
+}
+
+/**
+ * Pick the session backend from the environment:
+ *   MCP_SESSION_STORE=file | http | memory
+ * Defaults to http (sharing the token store's key-value service) when QB_TOKEN_STORE_URL is set,
+ * memory on Vercel and file otherwise.
+ */
+export function createSessionStoreFromEnv(defaultDir: string, ttlMs: number, env = process.env): SessionStore {
+  const kind = env.MCP_SESSION_STORE || (env.QB_TOKEN_STORE_URL ? "http" : env.VERCEL ? "memory" : "file");
+
+  switch (kind) {
+    case "file":
+      return new SessionStore(new FileKeyValueClient(env.MCP_SESSION_DIR || defaultDir), kind, ttlMs);
+    case "http":
+      if (!env.QB_TOKEN_STORE_URL) throw new Error("MCP_SESSION_STORE=http requires QB_TOKEN_STORE_URL.");
+      return new SessionStore(new HttpKeyValueClient(env.QB_TOKEN_STORE_URL, env.QB_TOKEN_STORE_TOKEN), kind, ttlMs);
+    case "memory":
+      return new SessionStore(new MemoryKeyValueClient(), kind, ttlMs);
+    default:
+      throw new Error(`Unknown MCP_SESSION_STORE "${kind}". Use file, http or memory.`);
+  }
+}
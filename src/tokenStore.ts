@@ -0,0 +1,272 @@
+// --- Token storage ---
+//
+// OAuth tokens for every connected company are persisted through a TokenStore so refreshed
+// refresh-tokens survive restarts and serverless cold starts. Backends: plain file, AES-GCM
+// encrypted file, and a generic key-value store (HTTP or in-process for tests).
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import fetch from "node-fetch";
+
+export type StoredCompany = {
+  alias?: string;
+  environment?: "production" | "sandbox";
+  tokens: Record<string, any> | null;
+};
+
+export type StoredCredentials = {
+  defaultRealmId?: string;
+  companies: Record<string, StoredCompany>;
+};
+
+export interface TokenStore {
+  /** Backend name for logs and health output */
+  readonly kind: string;
+  load(): Promise<StoredCredentials | null>;
+  save(data: StoredCredentials): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Runs writes one after another so a slow save can never land after (and clobber) a newer one.
+ */
+function serialized<T extends unknown[]>(fn: (...args: T) => Promise<void>) {
+  let tail: Promise<void> = Promise.resolve();
+  return (...args: T) => {
+    const next = tail.then(() => fn(...args));
+    tail = next.catch(() => undefined);
+    return next;
+  };
+}
+
+// Write to a temp file in the same directory, then rename over the target (atomic on POSIX)
+export function writeFileAtomic(filePath: string, contents: string) {
+  const dir = path.dirname(filePath);
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  const tmp = path.join(dir, `.${path.basename(filePath)}.${process.pid}.${crypto.randomBytes(4).toString("hex")}.tmp`);
+  fs.writeFileSync(tmp, contents, { mode: 0o600 });
+  fs.renameSync(tmp, filePath);
+}
+
+export class FileTokenStore implements TokenStore {
+  readonly kind: string = "file";
+
+  constructor(protected readonly filePath: string) {}
+
+  protected encode(data: StoredCredentials): string {
+    return JSON.stringify(data, null, 2);
+  }
+
+  protected decode(raw: string): StoredCredentials {
+    return JSON.parse(raw);
+  }
+
+  async load(): Promise<StoredCredentials | null> {
+    if (!fs.existsSync(this.filePath)) return null;
+    return this.decode(fs.readFileSync(this.filePath, "utf8"));
+  }
+
+  save = serialized(async (data: StoredCredentials) => {
+    writeFileAtomic(this.filePath, this.encode(data));
+  });
+
+  async clear(): Promise<void> {
+    if (fs.existsSync(this.filePath)) fs.unlinkSync(this.filePath);
+  }
+}
+
+/**
+ * File store encrypted with AES-256-GCM. The key is derived from a secret (e.g. QB_TOKEN_ENCRYPTION_KEY)
+ * with scrypt and a per-write random salt.
+ */
+export class EncryptedFileTokenStore extends FileTokenStore {
+  readonly kind = "encrypted-file";
+
+  constructor(filePath: string, private readonly secret: string) {
+    super(filePath);
+    if (!secret) throw new Error("EncryptedFileTokenStore requires an encryption key.");
+  }
+
+  protected encode(data: StoredCredentials): string {
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const key = crypto.scryptSync(this.secret, salt, 32);
+    const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(data), "utf8"), cipher.final()]);
+    return JSON.stringify({
+      v: 1,
+      alg: "aes-256-gcm",
+      salt: salt.toString("base64"),
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      data: ciphertext.toString("base64"),
+    });
+  }
+
+  protected decode(raw: string): StoredCredentials {
+    const envelope = JSON.parse(raw);
+    if (envelope?.alg !== "aes-256-gcm") {
+      throw new Error("Token file is not encrypted; remove it or switch QB_TOKEN_STORE back to file.");
+    }
+    const key = crypto.scryptSync(this.secret, Buffer.from(envelope.salt, "base64"), 32);
+    const decipher = crypto.createDecipheriv("aes-256-gcm", key, Buffer.from(envelope.iv, "base64"));
+    decipher.setAuthTag(Buffer.from(envelope.tag, "base64"));
+    try {
+      const plain = Buffer.concat([decipher.update(Buffer.from(envelope.data, "base64")), decipher.final()]);
+      return JSON.parse(plain.toString("utf8"));
+    } catch {
+      throw new Error("Could not decrypt token file; check QB_TOKEN_ENCRYPTION_KEY.");
+    }
+  }
+}
+
+// --- Key-value backends ---
+
+export interface KeyValueClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/** In-process key-value stand-in, for tests and single-instance deployments. */
+export class MemoryKeyValueClient implements KeyValueClient {
+  private readonly data = new Map<string, string>();
+
+  async get(key: string) {
+    return this.data.get(key) ?? null;
+  }
+
+  async set(key: string, value: string) {
+    this.data.set(key, value);
+  }
+
+  async delete(key: string) {
+    this.data.delete(key);
+  }
+}
+
+/** One file per key under a directory, for single-host deployments that should survive restarts. */
+export class FileKeyValueClient implements KeyValueClient {
+  constructor(private readonly dir: string) {}
+
+  private file(key: string) {
+    return path.join(this.dir, `${encodeURIComponent(key)}.json`);
+  }
+
+  async get(key: string) {
+    try {
+      return fs.readFileSync(this.file(key), "utf8");
+    } catch {
+      return null;
+    }
+  }
+
+  async set(key: string, value: string) {
+    writeFileAtomic(this.file(key), value);
+  }
+
+  async delete(key: string) {
+    fs.rmSync(this.file(key), { force: true });
+  }
+}
+
+/**
+ * Generic REST key-value client: GET/PUT/DELETE {baseUrl}/{key} with the value as the raw body
+ * and an optional bearer token. 404 on GET means "not set".
+ */
+export class HttpKeyValueClient implements KeyValueClient {
+  constructor(private readonly baseUrl: string, private readonly token?: string) {}
+
+  private url(key: string) {
+    return `${this.baseUrl.replace(/\/+$/, "")}/${encodeURIComponent(key)}`;
+  }
+
+  private headers(extra: Record<string, string> = {}) {
+    return {
+      ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+      ...extra,
+    };
+  }
+
+  async get(key: string) {
+    const resp = await fetch(this.url(key), { headers: this.headers() });
+    if (resp.status === 404) return null;
+    if (!resp.ok) throw new Error(`Token store GET failed: ${resp.status}`);
+    const text = await resp.text();
+    return text || null;
+  }
+
+  async set(key: string, value: string) {
+    const resp = await fetch(this.url(key), {
+      method: "PUT",
+      headers: this.headers({ "Content-Type": "application/json" }),
+      body: value,
+    });
+    if (!resp.ok) throw new Error(`Token store PUT failed: ${resp.status}`);
+  }
+
+  async delete(key: string) {
+    const resp = await fetch(this.url(key), { method: "DELETE", headers: this.headers() });
+    if (!resp.ok && resp.status !== 404) throw new Error(`Token store DELETE failed: ${resp.status}`);
+  }
+}
+
+/** Stores all credentials as one JSON value under a single key, so each write replaces it whole. */
+export class KeyValueTokenStore implements TokenStore {
+  constructor(
+    private readonly client: KeyValueClient,
+    private readonly key = "quickbooks-mcp:credentials",
+    readonly kind = "key-value"
+  ) {}
+
+  async load(): Promise<StoredCredentials | null> {
+    const raw = await this.client.get(this.key);
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  save = serialized(async (data: StoredCredentials) => {
+    await this.client.set(this.key, JSON.stringify(data));
+  });
+
+  async clear(): Promise<void> {
+    await this.client.delete(this.key);
+  }
+}
+
+/**
+ * Pick a backend from the environment:
+ *   QB_TOKEN_STORE=file | encrypted-file | http | memory
+ * Defaults to encrypted-file when QB_TOKEN_ENCRYPTION_KEY is set, http when QB_TOKEN_STORE_URL is set,
+ * memory on Vercel (read-only filesystem) and file otherwise.
+ */
+export function createTokenStoreFromEnv(defaultFilePath: string, env = process.env): TokenStore {
+  const filePath = env.QB_TOKEN_FILE || defaultFilePath;
+  const kind =
+    env.QB_TOKEN_STORE ||
+    (env.QB_TOKEN_STORE_URL
+      ? "http"
+      : env.QB_TOKEN_ENCRYPTION_KEY
+        ? "encrypted-file"
+        : env.VERCEL
+          ? "memory"
+          : "file");
+
+  switch (kind) {
+    case "file":
+      return new FileTokenStore(filePath);
+    case "encrypted-file":
+      return new EncryptedFileTokenStore(filePath, env.QB_TOKEN_ENCRYPTION_KEY ?? "");
+    case "http":
+      if (!env.QB_TOKEN_STORE_URL) throw new Error("QB_TOKEN_STORE=http requires QB_TOKEN_STORE_URL.");
+      return new KeyValueTokenStore(
+        new HttpKeyValueClient(env.QB_TOKEN_STORE_URL, env.QB_TOKEN_STORE_TOKEN),
+        env.QB_TOKEN_STORE_KEY,
+        "http"
+      );
+    case "memory":
+      return new KeyValueTokenStore(new MemoryKeyValueClient(), undefined, "memory");
+    default:
+      throw new Error(`Unknown QB_TOKEN_STORE "${kind}". Use file, encrypted-file, http or memory.`);
+  }
+}
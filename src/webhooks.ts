@@ -0,0 +1,122 @@
+// --- Intuit webhooks ---
+//
+// QBO posts eventNotifications (realm, entity, id, operation) to a public endpoint, signed with an
+// HMAC-SHA256 of the raw body under the app's verifier token (base64, intuit-signature header).
+// Verified events are de-duplicated and kept in a bounded, file-backed log that tools read and
+// MCP notifications are raised from.
+
+import crypto from "crypto";
+import fs from "fs";
+import { writeFileAtomic } from "./tokenStore.js";
+
+export type WebhookEvent = {
+  // Stable key used for de-duplication (Intuit retries deliveries)
+  id: string;
+  realmId: string;
+  entity: string;
+  entityId: string;
+  // Create, Update, Delete, Merge, Void or Emailed
+  operation: string;
+  lastUpdated?: string;
+  // Set for Merge: the Id that was merged away
+  deletedId?: string;
+  receivedAt: string;
+};
+
+/** Check the intuit-signature header against the raw request body. */
+export function verifyWebhookSignature(rawBody: Buffer, signature: string | undefined, verifierToken: string): boolean {
+  if (!signature || !verifierToken) return false;
+  const expected = Buffer.from(crypto.createHmac("sha256", verifierToken).update(rawBody).digest("base64"));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/** Flatten an eventNotifications payload into one event per changed entity. */
+export function parseWebhookPayload(payload: any, receivedAt = new Date().toISOString()): WebhookEvent[] {
+  const events: WebhookEvent[] = [];
+  for (const notification of payload?.eventNotifications ?? []) {
+    const realmId = String(notification?.realmId ?? "");
+    for (const e of notification?.dataChangeEvent?.entities ?? []) {
+      if (!realmId || !e?.name || !e?.id) continue;
+      const key = [realmId, e.name, e.id, e.operation, e.lastUpdated].join("|");
+      events.push({
+        id: crypto.createHash("sha256").update(key).digest("base64url").slice(0, 22),
+        realmId,
+        entity: String(e.name),
+        entityId: String(e.id),
+        operation: String(e.operation ?? ""),
+        ...(e.lastUpdated ? { lastUpdated: String(e.lastUpdated) } : {}),
+        ...(e.deletedId ? { deletedId: String(e.deletedId) } : {}),
+        receivedAt,
+      });
+    }
+  }
+  return events;
+}
+
+export type EventFilter = {
+  realmId?: string;
+  entity?: string;
+  operation?: string;
+  // ISO date-time; only events received after it
+  since?: string;
+  limit?: number;
+};
+
+/** Most recent webhook events, newest last, persisted to filePath when given. */
+export class EventLog {
+  private events?: WebhookEvent[];
+  private readonly listeners = new Set<(events: WebhookEvent[]) => void>();
+
+  constructor(
+    private readonly filePath: string | undefined,
+    private readonly maxEvents = 1000
+  ) {}
+
+  private load(): WebhookEvent[] {
+    if (!this.events) {
+      try {
+        this.events = this.filePath ? JSON.parse(fs.readFileSync(this.filePath, "utf8")) : [];
+      } catch {
+        // No log yet (or unreadable): start empty
+      }
+      this.events ??= [];
+    }
+    return this.events;
+  }
+
+  /** Record events not seen before; returns only the new ones and tells subscribers about them. */
+  add(incoming: WebhookEvent[]): WebhookEvent[] {
+    const events = this.load();
+    const seen = new Set(events.map((e) => e.id));
+    const fresh = incoming.filter((e) => !seen.has(e.id) && seen.add(e.id));
+    if (!fresh.length) return fresh;
+
+    events.push(...fresh);
+    if (events.length > this.maxEvents) events.splice(0, events.length - this.maxEvents);
+    if (this.filePath) writeFileAtomic(this.filePath, JSON.stringify(events));
+
+    for (const listener of this.listeners) listener(fresh);
+    return fresh;
+  }
+
+  /** Matching events, newest first. */
+  list(filter: EventFilter = {}): WebhookEvent[] {
+    const since = filter.since ? Date.parse(filter.since) : undefined;
+    return this.load()
+      .filter(
+        (e) =>
+          (!filter.realmId || e.realmId === filter.realmId) &&
+          (!filter.entity || e.entity.toLowerCase() === filter.entity.toLowerCase()) &&
+          (!filter.operation || e.operation === filter.operation) &&
+          (since === undefined || Date.parse(e.receivedAt) > since)
+      )
+      .reverse()
+      .slice(0, filter.limit ?? 50);
+  }
+
+  subscribe(listener: (events: WebhookEvent[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+}
@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { BatchOperation, runBatch } from "../src/batch.js";
+
+const creates = (n: number): BatchOperation[] =>
+  Array.from({ length: n }, (_, i) => ({ operation: "create", entity: "Customer", data: { DisplayName: `C${i + 1}` } }));
+
+// Answers every item in the body with its own entity
+const echo = (body: any) => ({
+  BatchItemResponse: body.BatchItemRequest.map((item: any) => ({ bId: item.bId, Customer: { Id: item.bId } })),
+});
+
+test("splits operations into requests of 30", async () => {
+  const sizes: number[] = [];
+  const results = await runBatch(creates(65), async (body) => {
+    sizes.push(body.BatchItemRequest.length);
+    return echo(body);
+  });
+  assert.deepEqual(sizes, [30, 30, 5]);
+  assert.equal(results.filter((r) => r.ok).length, 65);
+});
+
+test("a failed request keeps earlier results and marks the rest failed", async () => {
+  let calls = 0;
+  const results = await runBatch(creates(70), async (body) => {
+    if (++calls === 2) throw new Error("socket hang up");
+    return echo(body);
+  });
+  assert.equal(calls, 2);
+  assert.equal(results.length, 70);
+  assert.ok(results.slice(0, 30).every((r) => r.ok));
+  assert.ok(results.slice(30, 60).every((r) => !r.ok && r.error?.message === "socket hang up"));
+  assert.ok(results.slice(60).every((r) => !r.ok && /^Not sent: the batch request starting at "31"/.test(r.error!.message)));
+});
+
+test("item faults come back per operation", async () => {
+  const [ok, failed] = await runBatch(creates(2), async () => ({
+    BatchItemResponse: [
+      { bId: "1", Customer: { Id: "9" } },
+      { bId: "2", Fault: { type: "ValidationFault", Error: [{ Message: "Duplicate Name Exists Error", code: "6240" }] } },
+    ],
+  }));
+  assert.equal(ok.ok, true);
+  assert.equal(failed.ok, false);
+  assert.equal(failed.error?.code, "6240");
+});
@@ -0,0 +1,100 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ConfirmationTokens, DryRunStop, WriteGate } from "../src/confirmations.js";
+import { updateWithConflictCheck } from "../src/conflicts.js";
+import { ConfirmationRequiredError, QuickBooksError } from "../src/errors.js";
+
+const write = (displayName: string) => ({
+  method: "POST",
+  endpoint: "customer",
+  body: { Id: "1", SyncToken: "3", sparse: true, DisplayName: displayName },
+});
+
+// Preview a write and redeem the token it issues, as writeTool does
+function approve(...writes: ReturnType<typeof write>[]) {
+  const tokens = new ConfirmationTokens("secret", 60);
+  const preview = new WriteGate("dryRun", [], true);
+  for (const w of writes) preview.check(w);
+  const { token } = tokens.issue("update_customer", "123", preview.writes);
+  return tokens.redeem(token, "update_customer", "123")!;
+}
+
+test("a dry run stops at the first write", () => {
+  const gate = new WriteGate("dryRun");
+  assert.throws(() => gate.check(write("Acme")), DryRunStop);
+  assert.equal(gate.writes.length, 1);
+});
+
+test("a confirmed run lets through exactly the previewed writes", () => {
+  const gate = new WriteGate("confirm", approve(write("Acme")));
+  assert.equal(gate.check(write("Acme")), undefined);
+});
+
+test("a confirmed run rejects a write that differs from the preview", () => {
+  const gate = new WriteGate("confirm", approve(write("Acme")));
+  assert.throws(() => gate.check(write("Acme Corp")), ConfirmationRequiredError);
+});
+
+test("a token works once, and only for its tool and company", () => {
+  const tokens = new ConfirmationTokens("secret", 60);
+  const { token } = tokens.issue("update_customer", "123", [write("Acme")]);
+  assert.equal(tokens.redeem(token, "update_vendor", "123"), undefined);
+  assert.equal(tokens.redeem(token, "update_customer", "456"), undefined);
+  assert.ok(tokens.redeem(token, "update_customer", "123"));
+  assert.equal(tokens.redeem(token, "update_customer", "123"), undefined);
+});
+
+test("a confirmed update survives a stale_object retry", async () => {
+  const record = { Id: "1", SyncToken: "3", DisplayName: "Acme", Notes: "" };
+  const update = (gate: WriteGate, latest: () => Promise<any>, send: (body: any) => Promise<any>) =>
+    updateWithConflictCheck({
+      entity: "customer",
+      fetchLatest: latest,
+      patch: { DisplayName: "Acme Corp" },
+      sparse: true,
+      write: async (body) => {
+        const gated = gate.check({ method: "POST", endpoint: "customer", body });
+        return gated ? gated.simulated : send(body);
+      },
+      expectedSyncToken: "3",
+      snapshot: record,
+    });
+
+  const preview = new WriteGate("dryRun");
+  await assert.rejects(update(preview, async () => record, async () => assert.fail("sent in a dry run")), DryRunStop);
+  const tokens = new ConfirmationTokens("secret", 60);
+  const { token } = tokens.issue("update_customer", "123", preview.writes);
+
+  // Someone edits another field between our read and our write
+  const edited = { ...record, SyncToken: "4", Notes: "VIP" };
+  let latest = record;
+  const sent: any[] = [];
+  const gate = new WriteGate("confirm", tokens.redeem(token, "update_customer", "123"));
+  const outcome = await update(
+    gate,
+    async () => latest,
+    async (body) => {
+      sent.push(body);
+      if (body.SyncToken === "3") {
+        latest = edited;
+        throw new QuickBooksError({ message: "Stale Object Error", category: "stale_object" });
+      }
+      return { ...edited, ...body, SyncToken: "5" };
+    }
+  );
+  assert.deepEqual(
+    sent.map((b) => b.SyncToken),
+    ["3", "4"]
+  );
+  assert.equal(outcome.updated.DisplayName, "Acme Corp");
+  assert.deepEqual(outcome.mergedFields, ["Notes"]);
+});
+
+test("a confirmed run does not let a different write through as a retry", () => {
+  const gate = new WriteGate("confirm", approve(write("Acme")));
+  gate.check(write("Acme"));
+  assert.throws(
+    () => gate.check({ ...write("Acme Corp"), body: { ...write("Acme Corp").body, SyncToken: "4" } }),
+    ConfirmationRequiredError
+  );
+});
@@ -0,0 +1,28 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { csvFields, parseCsv, rowToInput, toCsv } from "../src/csv.js";
+import { z } from "zod";
+
+test("parses quoted cells with commas, quotes and newlines", () => {
+  const rows = parseCsv('\uFEFFname,note\r\n"Acme, Inc.","said ""hi""\nthen left"\n\nBeta,\n');
+  assert.deepEqual(rows, [
+    ["name", "note"],
+    ["Acme, Inc.", 'said "hi"\nthen left'],
+    ["Beta", ""],
+  ]);
+});
+
+test("rejects an unterminated quoted cell", () => {
+  assert.throws(() => parseCsv('name\n"Acme'), /missing closing quote/);
+});
+
+test("cells that would run as formulas are guarded and unguarded again on import", () => {
+  const values = ["=HYPERLINK(\"x\")", "+1 555 0100", "@SUM(A1)", "-12.50", "plain"];
+  const csv = toCsv([values]);
+  assert.equal(csv, `"'=HYPERLINK(""x"")",'+1 555 0100,'@SUM(A1),-12.50,plain`);
+
+  const fields = csvFields(z.object({ a: z.string(), b: z.string(), c: z.string(), d: z.string(), e: z.string() }));
+  const { input, errors } = rowToInput(parseCsv(csv)[0], ["a", "b", "c", "d", "e"], fields);
+  assert.deepEqual(errors, []);
+  assert.deepEqual(Object.values(input), values);
+});
@@ -0,0 +1,31 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { renderRecord, renderRecords, renderRows } from "../src/output.js";
+
+const customer = { Id: "1", DisplayName: "Acme", Notes: "", domain: "QBO", sparse: false, MetaData: { CreateTime: "t" } };
+
+test("records lose domain and sparse, and compact output drops MetaData and empty fields", () => {
+  assert.deepEqual(JSON.parse(renderRecord("Customer", customer).content[0].text), {
+    Id: "1",
+    DisplayName: "Acme",
+    Notes: "",
+    MetaData: { CreateTime: "t" },
+  });
+  const compact = renderRecord("Customer", customer, { format: "compact" });
+  assert.equal(compact.content[0].text, '{"Id":"1","DisplayName":"Acme"}');
+});
+
+test("field projection always keeps Id, and tables put meta in a second block", () => {
+  const opts = { fields: ["DisplayName"], format: "csv" as const };
+  const { content } = renderRecords("customers", "Customer", [customer], { page: 1 }, opts);
+  assert.equal(content[0].text, "Id,DisplayName\n1,Acme");
+  assert.equal(content[1].text, '{"page":1}');
+});
+
+test("non-entity rows render with the given columns", () => {
+  const rows = [{ entity: "Customer", id: "1", deleted: false, lastUpdatedTime: "t", record: { Id: "1" } }];
+  const { content } = renderRows("changes", rows, ["entity", "id", "deleted"], { since: "s" }, "markdown");
+  assert.equal(content[0].text, "| entity | id | deleted |\n| --- | --- | --- |\n| Customer | 1 | false |");
+  const json = renderRows("changes", rows, ["id"], { since: "s" });
+  assert.deepEqual(JSON.parse(json.content[0].text), { changes: rows, since: "s" });
+});
@@ -0,0 +1,35 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { QueryValidationError, buildQuery, decodeCursor, encodeCursor } from "../src/queryBuilder.js";
+
+test("string literals are escaped", () => {
+  const sql = buildQuery({ entity: "Customer", where: [{ field: "DisplayName", op: "=", value: "O'Brien \\ Sons" }] });
+  assert.match(sql, /WHERE DisplayName = 'O\\'Brien \\\\ Sons'/);
+});
+
+test("fields outside the whitelist are rejected, including prototype names", () => {
+  for (const field of ["Password", "constructor", "toString", "__proto__"]) {
+    assert.throws(
+      () => buildQuery({ entity: "Customer", where: [{ field, op: "=", value: "x" }] }),
+      QueryValidationError
+    );
+    assert.throws(() => buildQuery({ entity: "Customer", select: [field] }), QueryValidationError);
+  }
+});
+
+test("unknown entities are rejected", () => {
+  for (const entity of ["Employee", "constructor"]) {
+    assert.throws(() => buildQuery({ entity: entity as any }), QueryValidationError);
+  }
+});
+
+test("a cursor only resumes the query it came from", () => {
+  const spec = { entity: "Customer" as const, where: [{ field: "Active", op: "=" as const, value: true }] };
+  const cursor = encodeCursor(spec, 51, 50);
+  assert.deepEqual(decodeCursor(cursor, spec), { startPosition: 51, maxResults: 50 });
+  assert.throws(
+    () => decodeCursor(cursor, { ...spec, where: [{ field: "Active", op: "=", value: false }] }),
+    /does not match this query/
+  );
+  assert.throws(() => decodeCursor("not-a-cursor", spec), /Malformed cursor/);
+});
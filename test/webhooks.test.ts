@@ -0,0 +1,18 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import { verifyWebhookSignature } from "../src/webhooks.js";
+
+const body = Buffer.from('{"eventNotifications":[]}');
+const sign = (token: string, data: Buffer) => crypto.createHmac("sha256", token).update(data).digest("base64");
+
+test("accepts the HMAC of the raw body", () => {
+  assert.equal(verifyWebhookSignature(body, sign("verifier", body), "verifier"), true);
+});
+
+test("rejects a wrong token, a changed body or a missing signature", () => {
+  assert.equal(verifyWebhookSignature(body, sign("other", body), "verifier"), false);
+  assert.equal(verifyWebhookSignature(Buffer.from("{}"), sign("verifier", body), "verifier"), false);
+  assert.equal(verifyWebhookSignature(body, undefined, "verifier"), false);
+  assert.equal(verifyWebhookSignature(body, sign("", body), ""), false);
+});